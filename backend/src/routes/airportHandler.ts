@@ -0,0 +1,30 @@
+import { Request, Response } from 'express';
+import { searchAirports } from '../services/airportService';
+
+export const airportHandler = (req: Request, res: Response) => {
+  try {
+    const { q, limit } = req.query;
+
+    if (!q || typeof q !== 'string') {
+      return res.status(400).json({
+        error: 'Missing required parameter: q'
+      });
+    }
+
+    const maxResults = limit ? Math.min(Math.max(parseInt(limit as string, 10) || 20, 1), 100) : 20;
+    const airports = searchAirports(q, maxResults);
+
+    res.json({
+      query: q,
+      count: airports.length,
+      airports
+    });
+
+  } catch (error) {
+    console.error('Error processing airport search:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
@@ -0,0 +1,100 @@
+import { Request, Response } from 'express';
+import { findAirport } from '../services/airportService';
+import { parseLocalDateTime } from '../services/timeZoneService';
+import { AIRCRAFT_PROFILES, getAircraftProfile } from '../services/aircraftPerformanceService';
+import { analyzeItinerary, ItineraryLegInput } from '../services/itineraryService';
+
+/**
+ * POST /api/itinerary
+ * Body: { legs: [{ from, to, depart?, duration?, layoverMinutes?, aircraft? }, ...] }
+ * `depart` is local time at the leg's origin airport and is required on the first leg.
+ */
+export const itineraryHandler = async (req: Request, res: Response) => {
+  try {
+    const { legs } = req.body || {};
+
+    // Validate required parameters
+    if (!Array.isArray(legs) || legs.length === 0) {
+      return res.status(400).json({
+        error: 'Missing required parameter: legs (non-empty array of { from, to, depart?, duration?, layoverMinutes? })'
+      });
+    }
+
+    const legInputs: ItineraryLegInput[] = [];
+
+    for (let i = 0; i < legs.length; i++) {
+      const leg = legs[i] || {};
+      const label = `Leg ${i + 1}`;
+
+      if (!leg.from || !leg.to) {
+        return res.status(400).json({ error: `${label}: missing required fields from, to` });
+      }
+
+      const fromAirport = findAirport(String(leg.from));
+      const toAirport = findAirport(String(leg.to));
+      if (!fromAirport || !toAirport) {
+        return res.status(404).json({
+          error: `${label}: unknown airport code ${!fromAirport ? leg.from : leg.to}. Use /api/airports?q= to search.`
+        });
+      }
+
+      if (i === 0 && !leg.depart) {
+        return res.status(400).json({ error: `${label}: missing required field depart` });
+      }
+
+      let departureTime: Date | undefined;
+      if (leg.depart) {
+        departureTime = parseLocalDateTime(String(leg.depart), fromAirport.timezone);
+        if (isNaN(departureTime.getTime())) {
+          return res.status(400).json({
+            error: `${label}: invalid departure time format. Use ISO 8601 format (e.g., 2025-08-01T18:00)`
+          });
+        }
+      }
+
+      const duration = leg.duration !== undefined ? Number(leg.duration) : undefined;
+      if (duration !== undefined && !(Number.isFinite(duration) && duration > 0)) {
+        return res.status(400).json({ error: `${label}: duration must be a positive number of hours` });
+      }
+
+      const layoverMinutes = leg.layoverMinutes !== undefined ? Number(leg.layoverMinutes) : undefined;
+      if (layoverMinutes !== undefined && (isNaN(layoverMinutes) || layoverMinutes < 0)) {
+        return res.status(400).json({ error: `${label}: layoverMinutes must be zero or a positive number` });
+      }
+
+      if (leg.aircraft && !getAircraftProfile(String(leg.aircraft))) {
+        return res.status(400).json({
+          error: `${label}: unknown aircraft type ${leg.aircraft}. Supported types: ${Object.keys(AIRCRAFT_PROFILES).join(', ')}`
+        });
+      }
+
+      legInputs.push({
+        from: fromAirport.iata,
+        to: toAirport.iata,
+        departureTime,
+        duration,
+        layoverMinutes,
+        aircraftType: leg.aircraft ? String(leg.aircraft).toUpperCase() : undefined
+      });
+    }
+
+    let itinerary;
+    try {
+      itinerary = analyzeItinerary(legInputs);
+    } catch (validationError) {
+      // Inconsistent legs (broken connection, overlapping times)
+      return res.status(400).json({
+        error: validationError instanceof Error ? validationError.message : 'Invalid itinerary'
+      });
+    }
+
+    res.json(itinerary);
+
+  } catch (error) {
+    console.error('Error processing itinerary request:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
@@ -1,12 +1,33 @@
 import { Request, Response } from 'express';
-import { calculateFlightPath } from '../services/flightPathService';
+import { calculateFlightPath, planFlight } from '../services/flightPathService';
+import { AIRCRAFT_PROFILES, FlightProfile, getAircraftProfile, getPhaseTimeline } from '../services/aircraftPerformanceService';
+import { findAirport, getAirport } from '../services/airportService';
+import { parseLocalDateTime, toLocalTimes, withLocalTimes } from '../services/timeZoneService';
 import { calculateSunPositions } from '../services/sunPositionService';
-import { getSeatRecommendation } from '../services/seatRecommendationService';
-import { analyzeFlightSunConditions } from '../services/enhancedSunAnalysisService';
+import { calculateMoonPositions } from '../services/moonPositionService';
+import {
+  SeatObjective,
+  getScoredSeatRecommendation,
+  getSeatPlan,
+  getSeatRecommendation,
+  getSunExposure
+} from '../services/seatRecommendationService';
+import {
+  DEFAULT_SUN_CONDITION_THRESHOLDS,
+  FlightSunAnalysis,
+  SunConditionThresholds,
+  analyzeFlightSunConditions,
+  createTrackPosition,
+  resolveConditionThresholds
+} from '../services/enhancedSunAnalysisService';
+import { getCabinLayout } from '../services/aircraftCabinService';
+import { getLandmarkSightings } from '../services/landmarkService';
+import { getOverflownCountries } from '../services/countryService';
+import { POI_CATEGORIES, PoiCategory, getScenicPoiSightings } from '../services/scenicPoiService';
 
 export const routeHandler = async (req: Request, res: Response) => {
   try {
-    const { from, to, depart, duration } = req.query;
+    const { from, to, depart, arrive, duration, aircraft, objective, kp, poi } = req.query;
 
     // Validate required parameters
     if (!from || !to || !depart) {
@@ -15,10 +36,23 @@ export const routeHandler = async (req: Request, res: Response) => {
       });
     }
 
-    const fromAirport = from as string;
-    const toAirport = to as string;
-    const departureTime = new Date(depart as string);
-    const flightDuration = duration ? parseFloat(duration as string) : undefined;
+    const fromAirport = (from as string).toUpperCase();
+    const toAirport = (to as string).toUpperCase();
+
+    // Validate airports against the bundled database
+    const unknownAirports = [fromAirport, toAirport].filter(code => !findAirport(code));
+    if (unknownAirports.length > 0) {
+      return res.status(404).json({
+        error: `Unknown airport code: ${unknownAirports.join(', ')}. Use /api/airports?q= to search.`
+      });
+    }
+
+    const originTimeZone = getAirport(fromAirport).timezone;
+    const destinationTimeZone = getAirport(toAirport).timezone;
+
+    // Departure is local time at the origin airport, arrival local time at the destination
+    // (unless the string carries its own offset, e.g. "2025-08-01T12:30Z")
+    const departureTime = parseLocalDateTime(depart as string, originTimeZone);
 
     // Validate date
     if (isNaN(departureTime.getTime())) {
@@ -27,29 +61,137 @@ export const routeHandler = async (req: Request, res: Response) => {
       });
     }
 
-    // Calculate flight path
-    const flightPath = calculateFlightPath(fromAirport, toAirport, departureTime);
+    let flightDuration = duration !== undefined ? Number(duration) : undefined;
+    if (flightDuration !== undefined && !(Number.isFinite(flightDuration) && flightDuration > 0)) {
+      return res.status(400).json({
+        error: `Invalid duration: ${duration}. Use a positive number of hours (e.g., 7.5)`
+      });
+    }
+
+    if (arrive) {
+      const arrivalTime = parseLocalDateTime(arrive as string, destinationTimeZone);
+      if (isNaN(arrivalTime.getTime())) {
+        return res.status(400).json({
+          error: 'Invalid arrival time format. Use ISO 8601 format (e.g., 2025-08-02T06:30)'
+        });
+      }
+      if (arrivalTime.getTime() <= departureTime.getTime()) {
+        return res.status(400).json({
+          error: 'Arrival time must be after departure time'
+        });
+      }
+      // Scheduled arrival takes precedence over a separately supplied duration
+      flightDuration = (arrivalTime.getTime() - departureTime.getTime()) / (60 * 60 * 1000);
+    }
+
+    const aircraftType = aircraft ? (aircraft as string).toUpperCase() : undefined;
+    if (aircraftType && !getAircraftProfile(aircraftType)) {
+      return res.status(400).json({
+        error: `Unknown aircraft type: ${aircraft}. Supported types: ${Object.keys(AIRCRAFT_PROFILES).join(', ')}`
+      });
+    }
+
+    // 'view-sun' (default) picks the side to watch the sun from, 'avoid-sun' the shaded side
+    const seatObjective = (objective || 'view-sun') as SeatObjective;
+    if (seatObjective !== 'view-sun' && seatObjective !== 'avoid-sun') {
+      return res.status(400).json({
+        error: `Unknown objective: ${objective}. Use view-sun or avoid-sun`
+      });
+    }
+
+    // Optional geomagnetic activity for the aurora estimate (no live feed: the caller supplies a forecast)
+    const kpIndex = kp !== undefined ? parseFloat(kp as string) : undefined;
+    if (kpIndex !== undefined && !(kpIndex >= 0 && kpIndex <= 9)) {
+      return res.status(400).json({
+        error: `Invalid kp: ${kp}. Use a Kp index between 0 and 9`
+      });
+    }
+
+    // Optional scenic point-of-interest categories, e.g. poi=volcano,glacier (default: all)
+    const poiCategories = poi ? (poi as string).split(',').map(category => category.trim().toLowerCase()) : POI_CATEGORIES;
+    const unknownCategories = poiCategories.filter(category => !POI_CATEGORIES.includes(category as PoiCategory));
+    if (unknownCategories.length > 0) {
+      return res.status(400).json({
+        error: `Unknown poi category: ${unknownCategories.join(', ')}. Use ${POI_CATEGORIES.join(', ')}`
+      });
+    }
+
+    // Optional sun condition thresholds in degrees, e.g. goldenHour=-4&daylight=6
+    const conditionThresholds: Partial<SunConditionThresholds> = {};
+    (Object.keys(DEFAULT_SUN_CONDITION_THRESHOLDS) as (keyof SunConditionThresholds)[]).forEach(name => {
+      if (req.query[name] !== undefined) {
+        conditionThresholds[name] = parseFloat(req.query[name] as string);
+      }
+    });
+    let thresholds: SunConditionThresholds;
+    try {
+      thresholds = resolveConditionThresholds(conditionThresholds);
+    } catch (thresholdError) {
+      return res.status(400).json({
+        error: thresholdError instanceof Error ? thresholdError.message : 'Invalid sun condition thresholds'
+      });
+    }
+
+    // Calculate flight path (timed by the aircraft's taxi/climb/cruise/descent profile)
+    const flightOptions = { aircraftType, durationHours: flightDuration };
+    let flightProfile: FlightProfile;
+    try {
+      flightProfile = planFlight(fromAirport, toAirport, flightOptions);
+    } catch (durationError) {
+      // Duration too short or too long for the aircraft to fly the route in
+      return res.status(400).json({
+        error: durationError instanceof Error ? durationError.message : 'Invalid duration'
+      });
+    }
+
+    const flightPath = calculateFlightPath(fromAirport, toAirport, departureTime, flightOptions, flightProfile);
     
     // Calculate sun positions along the path
     const sunPositions = calculateSunPositions(flightPath, departureTime);
+    const moonPositions = calculateMoonPositions(flightPath);
     
     // Get seat recommendation (considering flight direction)
-    const recommendation = getSeatRecommendation(sunPositions, flightPath);
+    const sunExposure = seatObjective === 'avoid-sun' ? getSunExposure(sunPositions, flightPath, originTimeZone) : undefined;
+    const recommendation = sunExposure
+      ? (sunExposure.shadedSide === 'either' ? sunExposure.explanation : sunExposure.shadedSide)
+      : getSeatRecommendation(sunPositions, flightPath);
+    const seatRecommendation = getScoredSeatRecommendation(
+      sunPositions, flightPath, originTimeZone, flightProfile.aircraft.type, seatObjective
+    );
+    const seatPlan = getSeatPlan(sunPositions, flightPath, originTimeZone, flightProfile.aircraft.type);
+
+    // Closest approach to each mountain along the path, with side, angle and line of sight
+    const pathPosition = createTrackPosition(flightPath);
+    const pathStart = new Date(flightPath[0].time);
+    const pathEnd = new Date(flightPath[flightPath.length - 1].time);
+    const cabinLayout = getCabinLayout(flightProfile.aircraft.type);
+    const landmarks = getLandmarkSightings(
+      pathPosition, pathStart, pathEnd, originTimeZone, destinationTimeZone, cabinLayout
+    );
+
+    // Peaks, volcanoes, glaciers, deserts, rivers, lakes and landmarks along the way
+    const scenicPois = getScenicPoiSightings(
+      pathPosition, pathStart, pathEnd, originTimeZone, destinationTimeZone,
+      poiCategories as PoiCategory[], cabinLayout
+    );
+
+    // Countries below the path, with entry and exit times
+    const countries = getOverflownCountries(pathPosition, pathStart, pathEnd, originTimeZone, destinationTimeZone);
 
     // Enhanced sun analysis (if duration is provided)
-    let enhancedAnalysis = null;
+    let enhancedAnalysis: FlightSunAnalysis | undefined;
     if (flightDuration) {
       try {
-        // Extract date and time components for the enhanced analysis
-        const departureDate = departureTime.toISOString().split('T')[0];
-        const departureTimeStr = departureTime.toISOString().split('T')[1].substring(0, 5);
-        
         enhancedAnalysis = analyzeFlightSunConditions(
           fromAirport,
           toAirport,
-          departureDate,
-          departureTimeStr,
-          flightDuration
+          departureTime,
+          flightDuration,
+          aircraftType,
+          conditionThresholds,
+          kpIndex,
+          flightProfile,
+          seatObjective
         );
         
         console.log('Enhanced sun analysis completed:', enhancedAnalysis.summary);
@@ -58,20 +200,71 @@ export const routeHandler = async (req: Request, res: Response) => {
       }
     }
 
-    res.json({
-      path: flightPath,
-      sunPositions,
-      recommendation,
-      enhancedAnalysis: enhancedAnalysis || {
+    // Same shape as a full analysis, with nothing found, so clients need no special case
+    if (!enhancedAnalysis) {
+      enhancedAnalysis = {
         willSeeSunrise: false,
         willSeeSunset: false,
         willSeeNight: false,
         willSeeGoldenHour: false,
-        summary: ['Flight analysis requires duration parameter'],
+        sunrises: [],
+        sunsets: [],
+        polarSegments: [],
+        events: [],
+        summary: ['Flight analysis requires duration or arrive parameter'],
         recommendations: [],
         seatSuggestion: 'either',
-        timeline: []
-      }
+        timeline: [],
+        nightDuration: 0,
+        dayDuration: 0,
+        goldenHourDuration: 0,
+        blueHourDuration: 0,
+        conditionDurations: {
+          NIGHT: 0,
+          ASTRONOMICAL_TWILIGHT: 0,
+          NAUTICAL_TWILIGHT: 0,
+          CIVIL_TWILIGHT: 0,
+          BLUE_HOUR: 0,
+          GOLDEN_HOUR: 0,
+          DAYLIGHT: 0
+        },
+        twilightDurations: { CIVIL: 0, NAUTICAL: 0, ASTRONOMICAL: 0 },
+        thresholds
+      };
+    }
+
+    // The profile is fitted to any duration given, so this is the scheduled arrival when there is one
+    const arrivalEstimate = new Date(departureTime.getTime() + flightProfile.totalMinutes * 60 * 1000);
+
+    res.json({
+      departure: {
+        airport: fromAirport,
+        timeZone: originTimeZone,
+        ...toLocalTimes(departureTime, originTimeZone, destinationTimeZone)
+      },
+      arrival: {
+        airport: toAirport,
+        timeZone: destinationTimeZone,
+        ...toLocalTimes(arrivalEstimate, originTimeZone, destinationTimeZone)
+      },
+      aircraft: {
+        type: flightProfile.aircraft.type,
+        name: flightProfile.aircraft.name,
+        cruiseAltitudeM: Math.round(flightProfile.cruiseAltitudeM)
+      },
+      flightPhases: getPhaseTimeline(flightProfile, departureTime),
+      path: withLocalTimes(flightPath, originTimeZone, destinationTimeZone),
+      sunPositions: withLocalTimes(sunPositions, originTimeZone, destinationTimeZone),
+      moonPositions: withLocalTimes(moonPositions, originTimeZone, destinationTimeZone),
+      objective: seatObjective,
+      recommendation, // legacy: 'left' / 'right' or a sentence (the shaded side for avoid-sun)
+      seatRecommendation,
+      sunExposure,
+      seatPlan,
+      landmarks,
+      countries,
+      scenicPois,
+      enhancedAnalysis
     });
 
   } catch (error) {
@@ -0,0 +1,112 @@
+import { Request, Response } from 'express';
+import { parseTrack, trackToWaypoints, TrackFormat } from '../services/trackImportService';
+import { findAirport, findNearestAirport } from '../services/airportService';
+import { AIRCRAFT_PROFILES, getAircraftProfile } from '../services/aircraftPerformanceService';
+import { calculateSunPositions } from '../services/sunPositionService';
+import { getSeatPlan, getSeatRecommendation } from '../services/seatRecommendationService';
+import { analyzeTrackSunConditions } from '../services/enhancedSunAnalysisService';
+import { withLocalTimes } from '../services/timeZoneService';
+
+const TRACK_FORMATS: TrackFormat[] = ['gpx', 'kml', 'csv'];
+
+/**
+ * POST /api/track
+ * Accepts a recorded flight track either as the raw file body (GPX/KML/CSV, `?format=` optional)
+ * or as JSON `{ content, format?, from?, to? }`, and runs the sun and seat analysis on it.
+ */
+export const trackHandler = async (req: Request, res: Response) => {
+  try {
+    const body = typeof req.body === 'string' ? { content: req.body } : (req.body || {});
+    const content: unknown = body.content;
+    const format = String(body.format || req.query.format || '').toLowerCase();
+    const from = body.from || req.query.from;
+    const to = body.to || req.query.to;
+    const aircraft = body.aircraft || req.query.aircraft;
+    const kp = body.kp ?? req.query.kp;
+
+    // Validate required parameters
+    if (typeof content !== 'string' || content.trim().length === 0) {
+      return res.status(400).json({
+        error: 'Missing track file: send GPX/KML/CSV as the request body or as JSON { content }'
+      });
+    }
+
+    if (format && !TRACK_FORMATS.includes(format as TrackFormat)) {
+      return res.status(400).json({
+        error: `Invalid format: ${format}. Use one of ${TRACK_FORMATS.join(', ')}`
+      });
+    }
+
+    // The recorded track carries no aircraft type; without one, window and wing geometry is skipped
+    const aircraftType = aircraft ? String(aircraft).toUpperCase() : undefined;
+    if (aircraftType && !getAircraftProfile(aircraftType)) {
+      return res.status(400).json({
+        error: `Unknown aircraft type: ${aircraft}. Supported types: ${Object.keys(AIRCRAFT_PROFILES).join(', ')}`
+      });
+    }
+
+    // Optional geomagnetic activity for the aurora estimate, as on /api/route
+    const kpIndex = kp !== undefined ? parseFloat(String(kp)) : undefined;
+    if (kpIndex !== undefined && !(kpIndex >= 0 && kpIndex <= 9)) {
+      return res.status(400).json({
+        error: `Invalid kp: ${kp}. Use a Kp index between 0 and 9`
+      });
+    }
+
+    let track;
+    try {
+      track = parseTrack(content, (format || undefined) as TrackFormat | undefined);
+    } catch (parseError) {
+      return res.status(422).json({
+        error: parseError instanceof Error ? parseError.message : 'Unable to parse track'
+      });
+    }
+
+    const flightPath = trackToWaypoints(track.points);
+    const first = flightPath[0];
+    const last = flightPath[flightPath.length - 1];
+
+    // Airports are optional: fall back to the nearest airport to each end of the track
+    const fromAirport = (from && findAirport(String(from))) || findNearestAirport(first.lat, first.lon);
+    const toAirport = (to && findAirport(String(to))) || findNearestAirport(last.lat, last.lon);
+
+    const departureTime = new Date(first.time);
+    const sunPositions = calculateSunPositions(flightPath, departureTime);
+    const recommendation = getSeatRecommendation(sunPositions, flightPath);
+    const seatPlan = getSeatPlan(sunPositions, flightPath, fromAirport.timezone, aircraftType);
+    const enhancedAnalysis = analyzeTrackSunConditions(
+      flightPath, fromAirport.timezone, toAirport.timezone, {}, aircraftType, kpIndex
+    );
+
+    const altitudes = track.points
+      .map(point => point.altitude)
+      .filter((altitude): altitude is number => altitude !== undefined);
+
+    res.json({
+      track: {
+        format: track.format,
+        pointCount: track.pointCount,
+        validPointCount: track.validPointCount,
+        aircraft: aircraftType || null,
+        from: fromAirport.iata,
+        to: toAirport.iata,
+        start: first.time,
+        end: last.time,
+        durationHours: (new Date(last.time).getTime() - departureTime.getTime()) / (60 * 60 * 1000),
+        maxAltitude: altitudes.length > 0 ? Math.max(...altitudes) : null
+      },
+      path: withLocalTimes(flightPath, fromAirport.timezone, toAirport.timezone),
+      sunPositions: withLocalTimes(sunPositions, fromAirport.timezone, toAirport.timezone),
+      recommendation,
+      seatPlan,
+      enhancedAnalysis
+    });
+
+  } catch (error) {
+    console.error('Error processing track upload:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
@@ -1,16 +1,26 @@
 import express from 'express';
 import cors from 'cors';
 import { routeHandler } from './routes/routeHandler';
+import { airportHandler } from './routes/airportHandler';
+import { itineraryHandler } from './routes/itineraryHandler';
+import { trackHandler } from './routes/trackHandler';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: '10mb' }));
 
 // Routes
 app.get('/api/route', routeHandler);
+app.get('/api/airports', airportHandler);
+app.post('/api/itinerary', itineraryHandler);
+app.post(
+  '/api/track',
+  express.text({ type: ['text/*', 'application/gpx+xml', 'application/vnd.google-earth.kml+xml', 'application/xml'], limit: '10mb' }),
+  trackHandler
+);
 
 // Health check
 app.get('/health', (req, res) => {
@@ -0,0 +1,20 @@
+import { searchAirports } from '../airportService';
+
+describe('searchAirports', () => {
+  it('ranks airports in a country named exactly above cities that start with the name', () => {
+    const results = searchAirports('india');
+    expect(results.length).toBeGreaterThan(0);
+    expect(results.every(airport => airport.country === 'India')).toBe(true);
+    expect(results[0].size).toBe('large');
+  });
+
+  it('finds airports by the current name of a city the dataset lists under an older one', () => {
+    expect(searchAirports('bengaluru')[0].iata).toBe('BLR');
+    expect(searchAirports('Chennai')[0].iata).toBe('MAA');
+    expect(searchAirports('kyiv')[0].iata).toBe('KBP');
+  });
+
+  it('still ranks an exact code first', () => {
+    expect(searchAirports('del')[0].iata).toBe('DEL');
+  });
+});
@@ -0,0 +1,25 @@
+import { isLand } from '../coastlineService';
+
+describe('isLand', () => {
+  it.each([
+    ['London', 51.5074, -0.1278],
+    ['Stockholm', 59.3293, 18.0686],
+    ['Denver', 39.7392, -104.9903],
+    ['Alice Springs', -23.698, 133.8807],
+    ['Chukotka, east of the antimeridian', 65.5, -172],
+    ['Chukotka, west of the antimeridian', 67, 175],
+    ['Antarctica near the pole', -89, 0]
+  ])('finds land at %s', (_name, lat, lon) => {
+    expect(isLand(lat, lon)).toBe(true);
+  });
+
+  it.each([
+    ['the mid-Atlantic', 40, -40],
+    ['the Gulf of Guinea', 0, 0],
+    ['the Bay of Biscay', 45.5, -5],
+    ['the Pacific by the antimeridian', 0, 180],
+    ['the Arctic Ocean', 88, 0]
+  ])('finds sea in %s', (_name, lat, lon) => {
+    expect(isLand(lat, lon)).toBe(false);
+  });
+});
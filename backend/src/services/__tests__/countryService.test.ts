@@ -0,0 +1,20 @@
+import { getCountryAt } from '../countryService';
+
+describe('getCountryAt', () => {
+  it.each([
+    ['Paris', 48.8566, 2.3522, 'FR'],
+    ['Berlin', 52.52, 13.405, 'DE'],
+    ['Tokyo', 35.6762, 139.6503, 'JP'],
+    ['Sao Paulo', -23.5505, -46.6333, 'BR'],
+    ['Nairobi', -1.2921, 36.8219, 'KE'],
+    ['Chukotka, across the antimeridian', 65.5, -172, 'RU'],
+    ['Anchorage', 61.2181, -149.9003, 'US']
+  ])('puts %s in the right country', (_name, lat, lon, code) => {
+    expect(getCountryAt(lat, lon)?.code).toBe(code);
+  });
+
+  it('finds no country over the open sea', () => {
+    expect(getCountryAt(40, -40)).toBeUndefined();
+    expect(getCountryAt(-30, 80)).toBeUndefined();
+  });
+});
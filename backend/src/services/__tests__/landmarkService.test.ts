@@ -0,0 +1,19 @@
+import { getLineOfSight } from '../landmarkService';
+
+describe('getLineOfSight', () => {
+  it('sees a high summit well beyond the sea-level horizon from cruise altitude', () => {
+    const { elevationAngle, lineOfSight } = getLineOfSight(11000, 8849, 300);
+    expect(lineOfSight).toBe(true);
+    expect(elevationAngle).toBeLessThan(0);
+  });
+
+  it('loses a sea-level point behind the curve of the earth', () => {
+    // The horizon from 11 km is about 400 km away, a little further with refraction
+    expect(getLineOfSight(11000, 0, 350).lineOfSight).toBe(true);
+    expect(getLineOfSight(11000, 0, 500).lineOfSight).toBe(false);
+  });
+
+  it('puts a summit above the aircraft above its horizontal', () => {
+    expect(getLineOfSight(3000, 8849, 50).elevationAngle).toBeGreaterThan(5);
+  });
+});
@@ -0,0 +1,39 @@
+import eclipseData from '../../data/solarEclipses.json';
+import { BesselianElements, getLocalEclipse } from '../solarEclipseService';
+
+const elementsFor = (date: string): BesselianElements =>
+  (eclipseData as BesselianElements[]).find(eclipse => eclipse.date === date)!;
+
+describe('getLocalEclipse', () => {
+  // 2024-04-08 total eclipse, local circumstances from NASA's eclipse site
+  const april2024 = elementsFor('2024-04-08');
+
+  it('puts Dallas inside the umbra during totality', () => {
+    // Totality in Dallas 18:40:44 - 18:44:35 UTC, magnitude 1.015
+    const local = getLocalEclipse(april2024, new Date('2024-04-08T18:42:40Z'), 32.7767, -96.797);
+
+    expect(local.view).toBe('total');
+    expect(local.magnitude).toBeCloseTo(1.015, 2);
+    expect(local.obscuration).toBe(1);
+  });
+
+  it('gives the partial magnitude seen from New York', () => {
+    // Maximum in New York at 19:25:40 UTC, magnitude 0.908
+    const local = getLocalEclipse(april2024, new Date('2024-04-08T19:25:40Z'), 40.7128, -74.006);
+
+    expect(local.view).toBe('partial');
+    expect(local.magnitude).toBeCloseTo(0.908, 2);
+  });
+
+  it('finds no eclipse outside the shadow', () => {
+    // London is well outside the penumbra
+    expect(getLocalEclipse(april2024, new Date('2024-04-08T18:17:00Z'), 51.5074, -0.1278).view).toBe('none');
+  });
+
+  it('shows the 2026-08-12 eclipse as total in Burgos', () => {
+    // Totality in Burgos around 18:29 UTC
+    const local = getLocalEclipse(elementsFor('2026-08-12'), new Date('2026-08-12T18:29:30Z'), 42.3439, -3.6969);
+
+    expect(local.view).toBe('total');
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  AircraftPosition,
+  PositionAtTime,
+  findPolarSegments,
+  findSunEvents,
+  getPolarCondition,
+  sampleSun,
+  splitByThresholds
+} from '../sunEventService';
+import { GROUND_SUNRISE_ELEVATION, SUN_SEMI_DIAMETER } from '../sunPositionService';
+
+// An observer standing still on the ground, so the events are the ordinary almanac times
+const onGround = (lat: number, lon: number): PositionAtTime => (time: Date): AircraftPosition => ({
+  time,
+  lat,
+  lon,
+  progressPercent: 0,
+  altitude: 0,
+  phase: 'taxi-out'
+});
+
+const minutesApart = (a: Date, b: string) => Math.abs(a.getTime() - new Date(b).getTime()) / 60000;
+
+describe('findSunEvents', () => {
+  // London, 2024-06-21: sunrise 03:43 UTC, sunset 20:21 UTC (NOAA solar calculator)
+  const london = onGround(51.5074, -0.1278);
+  const start = new Date('2024-06-21T00:00:00Z');
+  const end = new Date('2024-06-22T00:00:00Z');
+
+  it('finds ground sunrise and sunset at the almanac times', () => {
+    const events = findSunEvents(london, start, end, [
+      { metric: 'elevation', value: GROUND_SUNRISE_ELEVATION, rising: 'ground-sunrise', setting: 'ground-sunset' }
+    ]);
+
+    const sunrise = events.find(event => event.type === 'ground-sunrise');
+    const sunset = events.find(event => event.type === 'ground-sunset');
+    expect(minutesApart(sunrise!.time, '2024-06-21T03:43:00Z')).toBeLessThan(2);
+    expect(minutesApart(sunset!.time, '2024-06-21T20:21:00Z')).toBeLessThan(2);
+  });
+
+  it('sees sunrise from the cabin at the ground time when the aircraft is on the ground', () => {
+    const events = findSunEvents(london, start, end, [
+      { metric: 'elevationAboveHorizon', value: -SUN_SEMI_DIAMETER, rising: 'sunrise', setting: 'sunset' }
+    ]);
+
+    expect(minutesApart(events.find(event => event.type === 'sunrise')!.time, '2024-06-21T03:43:00Z')).toBeLessThan(2);
+    expect(minutesApart(events.find(event => event.type === 'sunset')!.time, '2024-06-21T20:21:00Z')).toBeLessThan(2);
+  });
+
+  it('finds the highest sun at solar noon', () => {
+    const events = findSunEvents(london, start, end, []);
+    const noon = events.find(event => event.type === 'max-elevation');
+
+    // Solar noon in London on 2024-06-21 is 12:02 UTC, with the sun at 62°
+    expect(minutesApart(noon!.time, '2024-06-21T12:02:00Z')).toBeLessThan(2);
+    expect(noon!.sunElevation).toBeCloseTo(62, 0);
+  });
+});
+
+describe('splitByThresholds', () => {
+  it('covers the whole span with intervals that each stay on one side of every value', () => {
+    const positionAt = onGround(51.5074, -0.1278);
+    const start = new Date('2024-06-21T00:00:00Z');
+    const end = new Date('2024-06-22T00:00:00Z');
+    const values = [-18, -12, -6, 0, 6];
+    const intervals = splitByThresholds(positionAt, start, end, 'elevation', values);
+
+    const total = intervals.reduce((sum, interval) => sum + interval.minutes, 0);
+    expect(total).toBeCloseTo(24 * 60, 6);
+
+    // Just inside either end of an interval the sun is in the same band as at its midpoint
+    const band = (time: number) => values.filter(value => sampleSun(positionAt(new Date(time))).sunElevation >= value).length;
+    intervals.forEach(interval => {
+      const midpointBand = band(interval.midpoint.time.getTime());
+      expect(band(interval.start.getTime() + 5000)).toBe(midpointBand);
+      expect(band(interval.end.getTime() - 5000)).toBe(midpointBand);
+    });
+  });
+});
+
+describe('polar day and night', () => {
+  // Tromsø has midnight sun from late May to late July and polar night from late November to mid January
+  it('flags midnight sun and polar night', () => {
+    expect(getPolarCondition(new Date('2024-06-21T12:00:00Z'), 69.65, 18.96)).toBe('midnight-sun');
+    expect(getPolarCondition(new Date('2024-12-21T12:00:00Z'), 69.65, 18.96)).toBe('polar-night');
+    expect(getPolarCondition(new Date('2024-03-20T12:00:00Z'), 69.65, 18.96)).toBeUndefined();
+  });
+
+  it('reports a stay in midnight sun as one segment', () => {
+    const segments = findPolarSegments(
+      onGround(69.65, 18.96),
+      new Date('2024-06-21T06:00:00Z'),
+      new Date('2024-06-21T10:00:00Z')
+    );
+
+    expect(segments).toHaveLength(1);
+    expect(segments[0].type).toBe('midnight-sun');
+    expect(segments[0].minutes).toBeCloseTo(240, 0);
+  });
+});
@@ -0,0 +1,467 @@
+export type CabinClass = 'first' | 'business' | 'premium-economy' | 'economy';
+
+export type CabinSide = 'left' | 'right';
+
+export interface CabinSection {
+  cabinClass: CabinClass;
+  deck: 'main' | 'upper';
+  firstRow: number;
+  lastRow: number;
+  startM: number;      // distance from the nose to the first row's window
+  pitchM: number;      // row spacing
+  layout: string;      // seats per block across the cabin, e.g. "3-4-3"
+  leftSeats: string[]; // window → aisle
+  rightSeats: string[];
+}
+
+// One wing, seen from the cabin; distances in metres, x measured aft from the nose
+export interface WingGeometry {
+  rootLeadingEdgeM: number; // where the leading edge meets the fuselage
+  rootChordM: number;
+  tipChordM: number;
+  semiSpanM: number;        // fuselage side to wing tip
+  sweepDeg: number;         // leading-edge sweep
+  dihedralDeg: number;      // the wing rises towards the tip
+  dropM: number;            // root upper surface below the main-deck window line
+}
+
+export interface EngineGeometry {
+  stationM: number;  // nacelle inlet, aft from the nose
+  lengthM: number;
+  offsetM: number;   // nacelle centreline out from the fuselage side
+  diameterM: number;
+}
+
+// What a seated passenger can see through a window beside them. Bearings are
+// off the nose (0° ahead, 90° abeam, 180° behind), elevations from the aircraft's
+// horizontal plane.
+export interface WindowView {
+  forwardLimitDeg: number;
+  aftLimitDeg: number;
+  highestDeg: number;
+  lowestDeg: number;
+}
+
+export interface CabinLayout {
+  type: string;          // same codes as AIRCRAFT_PROFILES
+  name: string;
+  sections: CabinSection[];
+  windowlessRows: number[]; // window seats without a window (doors, ducts, galleys)
+  wing: WingGeometry;
+  engines: EngineGeometry[]; // on each side
+  window: WindowView;
+  cylinderM: [number, number]; // constant-section fuselage; windows ahead of it face forward, behind it aft
+}
+
+export type RowViewState =
+  | 'clear'
+  | 'ahead' | 'behind'               // outside the window's field of view
+  | 'above-window' | 'below-window'
+  | 'wing' | 'engine';
+
+// Where along the cabin the rows with a view are
+export type RowPosition = 'all' | 'forward' | 'rear' | 'mixed';
+
+export interface SideCoverage {
+  side: CabinSide;
+  state: RowViewState;   // 'clear' if any row sees it, otherwise why none does
+  clearRows: number[];   // empty without a cabin layout
+  position?: RowPosition;
+  description: string;   // "visible from forward rows of the right side", "not visible from any window (ahead)"
+}
+
+export interface RowView {
+  row: number;
+  cabinClass: CabinClass;
+  deck: 'main' | 'upper';
+  seat: string;          // window seat letter
+  view: RowViewState;
+}
+
+export interface RowRanking {
+  row: number;
+  cabinClass: CabinClass;
+  deck: 'main' | 'upper';
+  seat: string;
+  clearPercent: number;  // share of the weighted viewing time not hidden by the wing or engine
+}
+
+export interface SideSeating {
+  side: CabinSide;
+  cabins: {
+    cabinClass: CabinClass;
+    deck: 'main' | 'upper';
+    windowSeat: string;
+    seats: string[];     // window → aisle on this side
+    rows: string;        // window rows in this cabin, e.g. "4-9, 19-30"
+    clearRows: string;   // the same without wing rows
+  }[];
+  summary: string;       // "Window seat F (business rows 1-3; economy rows 4-9, 19-30) - rows 10-18 are over the wing"
+}
+
+// Representative configurations; individual airlines differ, so rows are a guide
+export const CABIN_LAYOUTS: Record<string, CabinLayout> = {
+  'A320': {
+    type: 'A320', name: 'Airbus A320',
+    sections: [
+      { cabinClass: 'business', deck: 'main', firstRow: 1, lastRow: 3, startM: 6.5, pitchM: 0.97, layout: '2-2', leftSeats: ['A', 'C'], rightSeats: ['F', 'D'] },
+      { cabinClass: 'economy', deck: 'main', firstRow: 4, lastRow: 30, startM: 9.4, pitchM: 0.76, layout: '3-3', leftSeats: ['A', 'B', 'C'], rightSeats: ['F', 'E', 'D'] }
+    ],
+    windowlessRows: [],
+    wing: { rootLeadingEdgeM: 13.8, rootChordM: 6.3, tipChordM: 1.5, semiSpanM: 15.9, sweepDeg: 25, dihedralDeg: 5, dropM: 1.4 },
+    engines: [{ stationM: 11.2, lengthM: 4.0, offsetM: 3.7, diameterM: 2.0 }],
+    window: { forwardLimitDeg: 35, aftLimitDeg: 145, highestDeg: 50, lowestDeg: -35 },
+    cylinderM: [7.0, 26.0]
+  },
+  'B737': {
+    type: 'B737', name: 'Boeing 737-800',
+    sections: [
+      { cabinClass: 'business', deck: 'main', firstRow: 1, lastRow: 4, startM: 6.0, pitchM: 0.97, layout: '2-2', leftSeats: ['A', 'C'], rightSeats: ['F', 'D'] },
+      { cabinClass: 'economy', deck: 'main', firstRow: 5, lastRow: 33, startM: 10.0, pitchM: 0.79, layout: '3-3', leftSeats: ['A', 'B', 'C'], rightSeats: ['F', 'E', 'D'] }
+    ],
+    windowlessRows: [10],
+    wing: { rootLeadingEdgeM: 15.3, rootChordM: 7.4, tipChordM: 1.3, semiSpanM: 15.9, sweepDeg: 25, dihedralDeg: 6, dropM: 1.3 },
+    engines: [{ stationM: 12.6, lengthM: 3.9, offsetM: 3.4, diameterM: 1.9 }],
+    window: { forwardLimitDeg: 35, aftLimitDeg: 145, highestDeg: 50, lowestDeg: -35 },
+    cylinderM: [7.0, 29.0]
+  },
+  'B777': {
+    type: 'B777', name: 'Boeing 777-300ER',
+    sections: [
+      { cabinClass: 'business', deck: 'main', firstRow: 1, lastRow: 10, startM: 9.0, pitchM: 1.1, layout: '1-2-1', leftSeats: ['A'], rightSeats: ['K'] },
+      { cabinClass: 'premium-economy', deck: 'main', firstRow: 20, lastRow: 25, startM: 21.5, pitchM: 0.96, layout: '2-4-2', leftSeats: ['A', 'C'], rightSeats: ['K', 'H'] },
+      { cabinClass: 'economy', deck: 'main', firstRow: 30, lastRow: 58, startM: 28.5, pitchM: 0.81, layout: '3-4-3', leftSeats: ['A', 'B', 'C'], rightSeats: ['K', 'J', 'H'] }
+    ],
+    windowlessRows: [30, 44],
+    wing: { rootLeadingEdgeM: 29.2, rootChordM: 9.1, tipChordM: 2.0, semiSpanM: 29.3, sweepDeg: 31.6, dihedralDeg: 6, dropM: 1.8 },
+    engines: [{ stationM: 25.6, lengthM: 7.3, offsetM: 6.8, diameterM: 3.4 }],
+    window: { forwardLimitDeg: 35, aftLimitDeg: 145, highestDeg: 50, lowestDeg: -35 },
+    cylinderM: [10.0, 58.0]
+  },
+  'B787': {
+    type: 'B787', name: 'Boeing 787-9',
+    sections: [
+      { cabinClass: 'business', deck: 'main', firstRow: 1, lastRow: 8, startM: 8.0, pitchM: 1.1, layout: '1-2-1', leftSeats: ['A'], rightSeats: ['K'] },
+      { cabinClass: 'premium-economy', deck: 'main', firstRow: 20, lastRow: 24, startM: 18.5, pitchM: 0.97, layout: '2-3-2', leftSeats: ['A', 'C'], rightSeats: ['K', 'H'] },
+      { cabinClass: 'economy', deck: 'main', firstRow: 28, lastRow: 50, startM: 24.5, pitchM: 0.81, layout: '3-3-3', leftSeats: ['A', 'B', 'C'], rightSeats: ['K', 'J', 'H'] }
+    ],
+    windowlessRows: [],
+    wing: { rootLeadingEdgeM: 24.4, rootChordM: 7.5, tipChordM: 1.6, semiSpanM: 27.9, sweepDeg: 32.2, dihedralDeg: 6.5, dropM: 1.7 },
+    engines: [{ stationM: 21.6, lengthM: 6.4, offsetM: 7.0, diameterM: 3.0 }],
+    window: { forwardLimitDeg: 30, aftLimitDeg: 150, highestDeg: 55, lowestDeg: -45 }, // larger, taller windows
+    cylinderM: [9.0, 48.0]
+  },
+  'A380': {
+    type: 'A380', name: 'Airbus A380-800',
+    sections: [
+      { cabinClass: 'first', deck: 'main', firstRow: 1, lastRow: 3, startM: 8.0, pitchM: 2.0, layout: '1-2-1', leftSeats: ['A'], rightSeats: ['K'] },
+      { cabinClass: 'business', deck: 'upper', firstRow: 6, lastRow: 24, startM: 14.0, pitchM: 1.45, layout: '1-2-1', leftSeats: ['A'], rightSeats: ['K'] },
+      { cabinClass: 'economy', deck: 'main', firstRow: 43, lastRow: 88, startM: 27.0, pitchM: 0.81, layout: '3-4-3', leftSeats: ['A', 'B', 'C'], rightSeats: ['K', 'J', 'H'] }
+    ],
+    windowlessRows: [43],
+    wing: { rootLeadingEdgeM: 32.5, rootChordM: 12.4, tipChordM: 4.0, semiSpanM: 36.2, sweepDeg: 33.5, dihedralDeg: 5.6, dropM: 2.2 },
+    engines: [
+      { stationM: 28.0, lengthM: 7.5, offsetM: 11.0, diameterM: 3.0 },
+      { stationM: 33.0, lengthM: 7.5, offsetM: 22.0, diameterM: 3.0 }
+    ],
+    window: { forwardLimitDeg: 35, aftLimitDeg: 145, highestDeg: 50, lowestDeg: -35 },
+    cylinderM: [12.0, 55.0]
+  }
+};
+
+const CABIN_CLASS_NAMES: Record<CabinClass, string> = {
+  'first': 'first',
+  'business': 'business',
+  'premium-economy': 'premium economy',
+  'economy': 'economy'
+};
+
+// Upper-deck windows sit this much higher above the wing
+const UPPER_DECK_HEIGHT_M = 2.6;
+
+// Used when the aircraft type is unknown
+export const DEFAULT_WINDOW_VIEW: WindowView = { forwardLimitDeg: 35, aftLimitDeg: 145, highestDeg: 50, lowestDeg: -35 };
+
+// Windows where the fuselage tapers at the nose and tail turn by up to this much
+const MAX_WINDOW_TOE_DEG = 10;
+const TAIL_TAPER_M = 12;
+
+const HIDDEN_REASONS: Record<Exclude<RowViewState, 'clear'>, string> = {
+  'ahead': 'too far ahead',
+  'behind': 'too far behind',
+  'above-window': 'too high',
+  'below-window': 'too low',
+  'wing': 'behind the wing',
+  'engine': 'behind the engine'
+};
+
+/**
+ * Look up a cabin layout by aircraft type code (case-insensitive)
+ */
+export const getCabinLayout = (type: string): CabinLayout | undefined => {
+  return CABIN_LAYOUTS[type.trim().toUpperCase()];
+};
+
+/**
+ * Distance from the nose to a row's window
+ */
+const rowStation = (section: CabinSection, row: number): number =>
+  section.startM + (row - section.firstRow) * section.pitchM;
+
+/**
+ * Whether a row's window is beside the wing root
+ */
+export const isWingRow = (layout: CabinLayout, section: CabinSection, row: number): boolean => {
+  const station = rowStation(section, row);
+  return station >= layout.wing.rootLeadingEdgeM && station <= layout.wing.rootLeadingEdgeM + layout.wing.rootChordM;
+};
+
+/**
+ * How far a window at this station is turned from abeam: negative (forward) in
+ * the nose taper, positive (aft) in the tail taper
+ */
+const windowToe = (layout: CabinLayout, station: number): number => {
+  const [start, end] = layout.cylinderM;
+  if (station < start) return -MAX_WINDOW_TOE_DEG * (start - station) / start;
+  if (station > end) return MAX_WINDOW_TOE_DEG * Math.min(1, (station - end) / TAIL_TAPER_M);
+  return 0;
+};
+
+/**
+ * Whether a direction falls inside a window's field of view
+ */
+export const getWindowState = (
+  window: WindowView,
+  relativeBearing: number,
+  elevation: number,
+  toeDeg: number = 0
+): RowViewState => {
+  const bearing = Math.abs(relativeBearing) - toeDeg;
+  if (bearing < window.forwardLimitDeg) return 'ahead';
+  if (bearing > window.aftLimitDeg) return 'behind';
+  if (elevation > window.highestDeg) return 'above-window';
+  if (elevation < window.lowestDeg) return 'below-window';
+  return 'clear';
+};
+
+/**
+ * What a window sees in one direction: first the window's field of view, then the
+ * line of sight is traced down to the wing's (dihedral) upper surface and checked
+ * against the swept planform and the engine nacelles. relativeBearing is off the
+ * nose on the window's side (0-180°), elevation is measured from the aircraft's
+ * horizontal plane.
+ */
+export const getViewState = (
+  layout: CabinLayout,
+  section: CabinSection,
+  row: number,
+  relativeBearing: number,
+  elevation: number
+): RowViewState => {
+  const windowState = getWindowState(layout.window, relativeBearing, elevation, windowToe(layout, rowStation(section, row)));
+  if (windowState !== 'clear') return windowState;
+
+  const { wing } = layout;
+  const bearing = Math.abs(relativeBearing) * Math.PI / 180;
+  const elev = elevation * Math.PI / 180;
+  const aft = -Math.cos(elev) * Math.cos(bearing);
+  const out = Math.cos(elev) * Math.sin(bearing);
+  const up = Math.sin(elev);
+
+  const drop = wing.dropM + (section.deck === 'upper' ? UPPER_DECK_HEIGHT_M : 0);
+  const closing = out * Math.tan(wing.dihedralDeg * Math.PI / 180) - up;
+  if (closing <= 0) return 'clear'; // never comes down to the wing
+
+  const distance = drop / closing;
+  const y = distance * out;
+  const x = rowStation(section, row) + distance * aft;
+  if (y > wing.semiSpanM) return 'clear';
+
+  const hitsEngine = layout.engines.some(engine =>
+    Math.abs(y - engine.offsetM) <= engine.diameterM / 2 &&
+    x >= engine.stationM && x <= engine.stationM + engine.lengthM);
+  if (hitsEngine) return 'engine';
+
+  const leadingEdge = wing.rootLeadingEdgeM + y * Math.tan(wing.sweepDeg * Math.PI / 180);
+  const chord = wing.rootChordM + (wing.tipChordM - wing.rootChordM) * y / wing.semiSpanM;
+  return x >= leadingEdge && x <= leadingEdge + chord ? 'wing' : 'clear';
+};
+
+/**
+ * Every window row on one side with what it sees in the given direction
+ */
+export const getRowViews = (
+  layout: CabinLayout,
+  side: CabinSide,
+  relativeBearing: number,
+  elevation: number
+): RowView[] => {
+  return layout.sections.flatMap(section => getWindowRows(layout, section).map(row => ({
+    row,
+    cabinClass: section.cabinClass,
+    deck: section.deck,
+    seat: side === 'left' ? section.leftSeats[0] : section.rightSeats[0],
+    view: getViewState(layout, section, row, relativeBearing, elevation)
+  })));
+};
+
+/**
+ * Rank the window rows on one side by how much of the weighted viewing time
+ * they see clear of the wing and engines (best first, then front to back)
+ */
+export const rankRows = (
+  layout: CabinLayout,
+  side: CabinSide,
+  views: { relativeBearing: number; elevation: number; weight: number }[]
+): RowRanking[] => {
+  const total = views.reduce((sum, view) => sum + view.weight, 0);
+  const clear = new Map<string, number>();
+  const rows: RowView[] = [];
+
+  views.forEach((view, i) => {
+    getRowViews(layout, side, view.relativeBearing, view.elevation).forEach(rowView => {
+      const key = `${rowView.deck}:${rowView.row}`;
+      if (i === 0) rows.push(rowView);
+      if (rowView.view === 'clear') {
+        clear.set(key, (clear.get(key) || 0) + view.weight);
+      }
+    });
+  });
+
+  return rows
+    .map(rowView => ({
+      row: rowView.row,
+      cabinClass: rowView.cabinClass,
+      deck: rowView.deck,
+      seat: rowView.seat,
+      clearPercent: total > 0 ? Math.round((clear.get(`${rowView.deck}:${rowView.row}`) || 0) / total * 100) : 0
+    }))
+    .sort((a, b) => b.clearPercent - a.clearPercent || a.row - b.row);
+};
+
+/**
+ * Collapse sorted row numbers into "4-9, 19-30"
+ */
+export const formatRowRanges = (rows: number[]): string => {
+  const ranges: string[] = [];
+  let start = rows[0];
+  for (let i = 1; i <= rows.length; i++) {
+    if (i === rows.length || rows[i] !== rows[i - 1] + 1) {
+      const end = rows[i - 1];
+      ranges.push(start === end ? `${start}` : `${start}-${end}`);
+      start = rows[i];
+    }
+  }
+  return ranges.join(', ');
+};
+
+/**
+ * Rows with a window in a cabin section
+ */
+export const getWindowRows = (layout: CabinLayout, section: CabinSection): number[] => {
+  const rows: number[] = [];
+  for (let row = section.firstRow; row <= section.lastRow; row++) {
+    if (!layout.windowlessRows.includes(row)) {
+      rows.push(row);
+    }
+  }
+  return rows;
+};
+
+/**
+ * Seat letters and rows on one side of the cabin, cabin by cabin
+ */
+export const describeSideSeating = (layout: CabinLayout, side: CabinSide): SideSeating => {
+  const wingRows: number[] = [];
+  const cabins = layout.sections.map(section => {
+    const seats = side === 'left' ? section.leftSeats : section.rightSeats;
+    const rows = getWindowRows(layout, section);
+    const clear = rows.filter(row => !isWingRow(layout, section, row));
+    wingRows.push(...rows.filter(row => isWingRow(layout, section, row)));
+
+    return {
+      cabinClass: section.cabinClass,
+      deck: section.deck,
+      windowSeat: seats[0],
+      seats,
+      rows: formatRowRanges(rows),
+      clearRows: clear.length > 0 ? formatRowRanges(clear) : ''
+    };
+  });
+
+  const sameLetter = cabins.every(cabin => cabin.windowSeat === cabins[0].windowSeat);
+  const parts = cabins.map(cabin => {
+    const deck = cabin.deck === 'upper' ? ' (upper deck)' : '';
+    const rows = `${CABIN_CLASS_NAMES[cabin.cabinClass]}${deck} rows ${cabin.clearRows || cabin.rows}`;
+    return sameLetter ? rows : `${cabin.windowSeat} in ${rows}`;
+  });
+
+  let summary = sameLetter
+    ? `Window seat ${cabins[0].windowSeat} (${parts.join('; ')})`
+    : `Window seats: ${parts.join('; ')}`;
+  if (wingRows.length > 0) {
+    summary += ` - rows ${formatRowRanges(wingRows.sort((a, b) => a - b))} are over the wing`;
+  }
+
+  return { side, cabins, summary };
+};
+
+/**
+ * Whether the given rows are the whole side, or sit in its front or back half
+ */
+export const getRowPosition = (layout: CabinLayout, rows: number[]): RowPosition => {
+  const all = layout.sections.flatMap(section =>
+    getWindowRows(layout, section).map(row => ({ row, station: rowStation(section, row) })));
+  if (rows.length >= all.length) return 'all';
+
+  const stations = all.map(entry => entry.station);
+  const middle = (Math.min(...stations) + Math.max(...stations)) / 2;
+  const chosen = all.filter(entry => rows.includes(entry.row));
+  if (chosen.every(entry => entry.station < middle)) return 'forward';
+  if (chosen.every(entry => entry.station >= middle)) return 'rear';
+  return 'mixed';
+};
+
+/**
+ * Which windows on one side can see something in a given direction. Without a
+ * cabin layout only the default window field of view is checked.
+ */
+export const getSideCoverage = (
+  layout: CabinLayout | undefined,
+  relativeBearing: number,
+  elevation: number
+): SideCoverage => {
+  const side: CabinSide = relativeBearing >= 0 ? 'right' : 'left';
+
+  if (!layout) {
+    const state = getWindowState(DEFAULT_WINDOW_VIEW, relativeBearing, elevation);
+    return {
+      side,
+      state,
+      clearRows: [],
+      description: state === 'clear'
+        ? `visible from the ${side} side`
+        : `not visible from any window (${HIDDEN_REASONS[state]})`
+    };
+  }
+
+  const rows = getRowViews(layout, side, relativeBearing, elevation);
+  const clearRows = rows.filter(row => row.view === 'clear').map(row => row.row).sort((a, b) => a - b);
+
+  if (clearRows.length === 0) {
+    // Report the most common reason, e.g. 'ahead' rather than the few rows where the wing is in the way
+    const counts = new Map<RowViewState, number>();
+    rows.forEach(row => counts.set(row.view, (counts.get(row.view) || 0) + 1));
+    const state = [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0] as Exclude<RowViewState, 'clear'>;
+    return { side, state, clearRows, description: `not visible from any window (${HIDDEN_REASONS[state]})` };
+  }
+
+  const position = getRowPosition(layout, clearRows);
+  const description = position === 'all'
+    ? `visible from the whole ${side} side`
+    : position === 'mixed'
+      ? `visible from rows ${formatRowRanges(clearRows)} of the ${side} side`
+      : `visible from ${position} rows of the ${side} side`;
+
+  return { side, state: 'clear', clearRows, position, description };
+};
@@ -0,0 +1,273 @@
+export type FlightPhase = 'taxi-out' | 'climb' | 'cruise' | 'descent' | 'taxi-in';
+
+export interface AircraftProfile {
+  type: string;
+  name: string;
+  taxiOutMinutes: number;
+  taxiInMinutes: number;
+  climbRateFpm: number;      // average rate of climb to cruise altitude
+  climbSpeedKmh: number;     // average ground speed while climbing
+  cruiseAltitudeFt: number;
+  cruiseSpeedKmh: number;
+  descentRateFpm: number;    // average rate of descent from cruise altitude
+  descentSpeedKmh: number;   // average ground speed while descending
+}
+
+// Typical block-to-block performance figures (averages, not flight-planning data)
+export const AIRCRAFT_PROFILES: Record<string, AircraftProfile> = {
+  'A320': {
+    type: 'A320', name: 'Airbus A320',
+    taxiOutMinutes: 15, taxiInMinutes: 7,
+    climbRateFpm: 1800, climbSpeedKmh: 580,
+    cruiseAltitudeFt: 36000, cruiseSpeedKmh: 830,
+    descentRateFpm: 1500, descentSpeedKmh: 540
+  },
+  'B737': {
+    type: 'B737', name: 'Boeing 737-800',
+    taxiOutMinutes: 15, taxiInMinutes: 7,
+    climbRateFpm: 1800, climbSpeedKmh: 590,
+    cruiseAltitudeFt: 35000, cruiseSpeedKmh: 840,
+    descentRateFpm: 1500, descentSpeedKmh: 550
+  },
+  'B777': {
+    type: 'B777', name: 'Boeing 777-300ER',
+    taxiOutMinutes: 18, taxiInMinutes: 9,
+    climbRateFpm: 1500, climbSpeedKmh: 620,
+    cruiseAltitudeFt: 37000, cruiseSpeedKmh: 905,
+    descentRateFpm: 1400, descentSpeedKmh: 580
+  },
+  'B787': {
+    type: 'B787', name: 'Boeing 787-9',
+    taxiOutMinutes: 17, taxiInMinutes: 8,
+    climbRateFpm: 1600, climbSpeedKmh: 620,
+    cruiseAltitudeFt: 39000, cruiseSpeedKmh: 910,
+    descentRateFpm: 1450, descentSpeedKmh: 580
+  },
+  'A380': {
+    type: 'A380', name: 'Airbus A380-800',
+    taxiOutMinutes: 20, taxiInMinutes: 10,
+    climbRateFpm: 1300, climbSpeedKmh: 610,
+    cruiseAltitudeFt: 37000, cruiseSpeedKmh: 900,
+    descentRateFpm: 1300, descentSpeedKmh: 570
+  }
+};
+
+const FEET_TO_METRES = 0.3048;
+
+// Plausible cruise ground speeds (winds, holding, routing) as a share of the nominal one
+const FASTEST_CRUISE_FACTOR = 1.3;
+const SLOWEST_CRUISE_FACTOR = 0.5;
+
+export interface PhaseSegment {
+  phase: FlightPhase;
+  startMinute: number; // minutes after gate departure
+  endMinute: number;
+  startKm: number;     // distance flown along the route
+  endKm: number;
+}
+
+export interface FlightProfile {
+  aircraft: AircraftProfile;
+  distanceKm: number;
+  totalMinutes: number;
+  cruiseAltitudeM: number; // may be below the aircraft's ceiling on short hops
+  originElevationM: number;
+  destinationElevationM: number;
+  segments: PhaseSegment[];
+}
+
+export interface FlightState {
+  minutes: number;
+  distanceKm: number;
+  altitude: number; // metres above sea level
+  phase: FlightPhase;
+}
+
+/**
+ * Look up an aircraft profile by type code (case-insensitive)
+ */
+export const getAircraftProfile = (type: string): AircraftProfile | undefined => {
+  return AIRCRAFT_PROFILES[type.trim().toUpperCase()];
+};
+
+/**
+ * Pick a representative aircraft when the caller doesn't name one:
+ * narrowbody for regional hops, widebody for long-haul
+ */
+export const selectDefaultAircraft = (distanceKm: number): AircraftProfile => {
+  return distanceKm < 4500 ? AIRCRAFT_PROFILES['A320'] : AIRCRAFT_PROFILES['B787'];
+};
+
+/**
+ * Shortest block time (the fastest plausible cruise, no taxiing) and longest (the slowest
+ * plausible cruise, usual taxi times) a profile can be fitted to
+ */
+const blockTimeLimits = (
+  aircraft: AircraftProfile,
+  airborneMinutes: number, // climb and descent
+  cruiseKm: number
+): { minMinutes: number; maxMinutes: number } => ({
+  minMinutes: airborneMinutes + cruiseKm / (aircraft.cruiseSpeedKmh * FASTEST_CRUISE_FACTOR) * 60,
+  maxMinutes: aircraft.taxiOutMinutes + airborneMinutes + aircraft.taxiInMinutes +
+    cruiseKm / (aircraft.cruiseSpeedKmh * SLOWEST_CRUISE_FACTOR) * 60
+});
+
+/**
+ * Build the taxi-out / climb / cruise / descent / taxi-in profile for a route.
+ * When a scheduled block time is given, the cruise speed is adjusted so the profile fits it,
+ * and a schedule too tight even at the fastest cruise is made up from the taxi times.
+ * Schedules outside getBlockTimeRange are clamped to it.
+ */
+export const buildFlightProfile = (
+  aircraft: AircraftProfile,
+  distanceKm: number,
+  originElevationM: number = 0,
+  destinationElevationM: number = 0,
+  scheduledMinutes?: number
+): FlightProfile => {
+  const ceilingM = aircraft.cruiseAltitudeFt * FEET_TO_METRES;
+
+  let climbMinutes = (ceilingM - originElevationM) / FEET_TO_METRES / aircraft.climbRateFpm;
+  let descentMinutes = (ceilingM - destinationElevationM) / FEET_TO_METRES / aircraft.descentRateFpm;
+  let climbKm = climbMinutes / 60 * aircraft.climbSpeedKmh;
+  let descentKm = descentMinutes / 60 * aircraft.descentSpeedKmh;
+  let cruiseAltitudeM = ceilingM;
+
+  // Short hop: never reach the nominal cruise altitude, so scale climb and descent down
+  if (climbKm + descentKm > distanceKm) {
+    const scale = distanceKm / (climbKm + descentKm);
+    climbMinutes *= scale;
+    descentMinutes *= scale;
+    climbKm *= scale;
+    descentKm *= scale;
+    cruiseAltitudeM = originElevationM + (ceilingM - originElevationM) * scale;
+  }
+
+  const cruiseKm = Math.max(0, distanceKm - climbKm - descentKm);
+  let cruiseMinutes = cruiseKm / aircraft.cruiseSpeedKmh * 60;
+  let taxiOutMinutes = aircraft.taxiOutMinutes;
+  let taxiInMinutes = aircraft.taxiInMinutes;
+
+  if (scheduledMinutes !== undefined) {
+    const { minMinutes, maxMinutes } = blockTimeLimits(aircraft, climbMinutes + descentMinutes, cruiseKm);
+    const blockMinutes = Math.min(maxMinutes, Math.max(minMinutes, scheduledMinutes));
+    const fixedMinutes = taxiOutMinutes + climbMinutes + descentMinutes + taxiInMinutes;
+    // Keep cruise speed within a plausible band around the nominal value
+    const minCruiseMinutes = cruiseKm / (aircraft.cruiseSpeedKmh * FASTEST_CRUISE_FACTOR) * 60;
+    cruiseMinutes = Math.max(minCruiseMinutes, blockMinutes - fixedMinutes);
+
+    // Anything still over comes off taxi-out and taxi-in in proportion
+    const taxiScale = Math.max(0, blockMinutes - climbMinutes - cruiseMinutes - descentMinutes) / (taxiOutMinutes + taxiInMinutes);
+    taxiOutMinutes *= taxiScale;
+    taxiInMinutes *= taxiScale;
+  }
+
+  const segments: PhaseSegment[] = [];
+  let minute = 0;
+  let km = 0;
+  const push = (phase: FlightPhase, minutes: number, distance: number) => {
+    segments.push({ phase, startMinute: minute, endMinute: minute + minutes, startKm: km, endKm: km + distance });
+    minute += minutes;
+    km += distance;
+  };
+
+  push('taxi-out', taxiOutMinutes, 0);
+  push('climb', climbMinutes, climbKm);
+  push('cruise', cruiseMinutes, cruiseKm);
+  push('descent', descentMinutes, descentKm);
+  push('taxi-in', taxiInMinutes, 0);
+
+  return {
+    aircraft,
+    distanceKm,
+    totalMinutes: minute,
+    cruiseAltitudeM,
+    originElevationM,
+    destinationElevationM,
+    segments
+  };
+};
+
+/**
+ * Range of scheduled block times (minutes) the route's profile can be fitted to
+ */
+export const getBlockTimeRange = (profile: FlightProfile): { minMinutes: number; maxMinutes: number } => {
+  const minutesIn = (phase: FlightPhase) => profile.segments
+    .filter(segment => segment.phase === phase)
+    .reduce((sum, segment) => sum + segment.endMinute - segment.startMinute, 0);
+  const cruiseKm = profile.segments
+    .filter(segment => segment.phase === 'cruise')
+    .reduce((sum, segment) => sum + segment.endKm - segment.startKm, 0);
+  return blockTimeLimits(profile.aircraft, minutesIn('climb') + minutesIn('descent'), cruiseKm);
+};
+
+/**
+ * Altitude within a segment, interpolated linearly between its end points
+ */
+const altitudeInSegment = (profile: FlightProfile, segment: PhaseSegment, fraction: number): number => {
+  switch (segment.phase) {
+    case 'taxi-out':
+      return profile.originElevationM;
+    case 'climb':
+      return profile.originElevationM + (profile.cruiseAltitudeM - profile.originElevationM) * fraction;
+    case 'cruise':
+      return profile.cruiseAltitudeM;
+    case 'descent':
+      return profile.cruiseAltitudeM + (profile.destinationElevationM - profile.cruiseAltitudeM) * fraction;
+    case 'taxi-in':
+      return profile.destinationElevationM;
+  }
+};
+
+/**
+ * Aircraft state a given number of minutes after gate departure
+ */
+export const stateAtMinute = (profile: FlightProfile, minutes: number): FlightState => {
+  const clamped = Math.min(Math.max(minutes, 0), profile.totalMinutes);
+  const segment = profile.segments.find(s => clamped <= s.endMinute) || profile.segments[profile.segments.length - 1];
+  const span = segment.endMinute - segment.startMinute;
+  const fraction = span > 0 ? (clamped - segment.startMinute) / span : 1;
+
+  return {
+    minutes: clamped,
+    distanceKm: segment.startKm + (segment.endKm - segment.startKm) * fraction,
+    altitude: altitudeInSegment(profile, segment, fraction),
+    phase: segment.phase
+  };
+};
+
+/**
+ * Aircraft state at a given distance flown along the route (airborne phases only)
+ */
+export const stateAtDistance = (profile: FlightProfile, distanceKm: number): FlightState => {
+  const clamped = Math.min(Math.max(distanceKm, 0), profile.distanceKm);
+  const airborne = profile.segments.filter(s => s.endKm > s.startKm);
+  if (airborne.length === 0) {
+    return stateAtMinute(profile, 0);
+  }
+  const segment = airborne.find(s => clamped <= s.endKm) || airborne[airborne.length - 1];
+  const fraction = (clamped - segment.startKm) / (segment.endKm - segment.startKm);
+
+  return {
+    minutes: segment.startMinute + (segment.endMinute - segment.startMinute) * fraction,
+    distanceKm: clamped,
+    altitude: altitudeInSegment(profile, segment, fraction),
+    phase: segment.phase
+  };
+};
+
+/**
+ * Phase boundaries as absolute times, for API responses
+ */
+export const getPhaseTimeline = (profile: FlightProfile, departureTime: Date) => {
+  const toIso = (minutes: number) => new Date(departureTime.getTime() + minutes * 60 * 1000).toISOString();
+
+  return profile.segments.map(segment => ({
+    phase: segment.phase,
+    start: toIso(segment.startMinute),
+    end: toIso(segment.endMinute),
+    minutes: Math.round(segment.endMinute - segment.startMinute),
+    startKm: Math.round(segment.startKm),
+    endKm: Math.round(segment.endKm)
+  }));
+};
@@ -0,0 +1,158 @@
+import airportData from '../data/airports.json';
+
+export interface Airport {
+  iata: string;
+  icao: string | null;
+  name: string;
+  city: string;
+  country: string;
+  lat: number;
+  lon: number;
+  elevationFt: number;
+  timezone: string; // IANA timezone, e.g. "Asia/Kolkata"
+  size: AirportSize;
+}
+
+// OurAirports classification: 'large' for major hubs, 'small' where it has none
+export type AirportSize = 'large' | 'medium' | 'small';
+
+// Search bonus by size, smaller than the gap between match kinds
+const SIZE_SCORE: Record<AirportSize, number> = { large: 8, medium: 3, small: 0 };
+
+// Other names travellers search for, keyed by the dataset's city name
+const CITY_ALIASES: Record<string, string[]> = {
+  'Alma-ata': ['Almaty'],
+  'Bangalore': ['Bengaluru'],
+  'Beijing': ['Peking'],
+  'Cologne': ['Köln', 'Koln'],
+  'Florence': ['Firenze'],
+  'Geneva': ['Genève', 'Geneve'],
+  'Ho Chi Minh City': ['Saigon'],
+  'Kiev': ['Kyiv'],
+  'Kochi': ['Cochin'],
+  'Kolkata': ['Calcutta'],
+  'Krakow': ['Kraków'],
+  'Lisbon': ['Lisboa'],
+  'Madras': ['Chennai'],
+  'Mumbai': ['Bombay'],
+  'Munich': ['München', 'Munchen'],
+  'Naples': ['Napoli'],
+  'Prague': ['Praha'],
+  'Sao Paulo': ['São Paulo'],
+  'St. Petersburg': ['Saint Petersburg'],
+  'Trivandrum': ['Thiruvananthapuram'],
+  'Venice': ['Venezia'],
+  'Vienna': ['Wien'],
+  'Warsaw': ['Warszawa'],
+  'Yangon': ['Rangoon']
+};
+
+// Current country names for the dataset's older ones
+const COUNTRY_ALIASES: Record<string, string[]> = {
+  'Burma': ['Myanmar'],
+  'Czech Republic': ['Czechia'],
+  'Turkey': ['Türkiye', 'Turkiye']
+};
+
+// Bundled offline dataset (OpenFlights/OurAirports), indexed once at startup
+const AIRPORT_LIST: Airport[] = airportData as Airport[];
+const AIRPORTS_BY_IATA = new Map<string, Airport>();
+const AIRPORTS_BY_ICAO = new Map<string, Airport>();
+
+AIRPORT_LIST.forEach(airport => {
+  AIRPORTS_BY_IATA.set(airport.iata, airport);
+  if (airport.icao) {
+    AIRPORTS_BY_ICAO.set(airport.icao, airport);
+  }
+});
+
+/**
+ * Look up an airport by IATA (3-letter) or ICAO (4-letter) code
+ */
+export const findAirport = (code: string): Airport | undefined => {
+  const normalized = code.trim().toUpperCase();
+  return AIRPORTS_BY_IATA.get(normalized) || AIRPORTS_BY_ICAO.get(normalized);
+};
+
+/**
+ * Look up an airport and fail loudly if it is unknown
+ */
+export const getAirport = (code: string): Airport => {
+  const airport = findAirport(code);
+  if (!airport) {
+    throw new Error(`Airport not found: ${code}`);
+  }
+  return airport;
+};
+
+/**
+ * Airport coordinates as a [lat, lon] tuple
+ */
+export const getAirportCoordinates = (code: string): [number, number] => {
+  const airport = getAirport(code);
+  return [airport.lat, airport.lon];
+};
+
+/**
+ * Search airports by code, name, city (or a common alternative city name) or country.
+ * Exact code and city matches rank first, then exact country matches, then city, code and
+ * name prefixes, then substring matches; within each, bigger airports come first.
+ */
+export const searchAirports = (query: string, limit: number = 20): Airport[] => {
+  const term = query.trim().toLowerCase();
+  if (!term) {
+    return [];
+  }
+
+  const scored: { airport: Airport; score: number }[] = [];
+
+  AIRPORT_LIST.forEach(airport => {
+    const iata = airport.iata.toLowerCase();
+    const icao = (airport.icao || '').toLowerCase();
+    const cities = [airport.city, ...(CITY_ALIASES[airport.city] || [])].map(city => city.toLowerCase());
+    const name = airport.name.toLowerCase();
+    const countries = [airport.country, ...(COUNTRY_ALIASES[airport.country] || [])].map(country => country.toLowerCase());
+
+    let score = 0;
+    if (iata === term || icao === term) score = 100;
+    else if (cities.includes(term)) score = 90;
+    else if (countries.includes(term)) score = 80;
+    else if (cities.some(city => city.startsWith(term))) score = 70;
+    else if (iata.startsWith(term) || icao.startsWith(term)) score = 60;
+    else if (name.startsWith(term)) score = 50;
+    else if (cities.some(city => city.includes(term)) || name.includes(term)) score = 30;
+    else if (countries.some(country => country.includes(term))) score = 10;
+
+    if (score > 0) {
+      // Prefer major airports when several match alike
+      scored.push({ airport, score: score + SIZE_SCORE[airport.size] });
+    }
+  });
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.airport.city.localeCompare(b.airport.city))
+    .slice(0, limit)
+    .map(entry => entry.airport);
+};
+
+/**
+ * Nearest airport to a position (e.g. the first point of an imported track)
+ */
+export const findNearestAirport = (lat: number, lon: number): Airport => {
+  const toRad = Math.PI / 180;
+  let nearest = AIRPORT_LIST[0];
+  let nearestDistance = Infinity;
+
+  AIRPORT_LIST.forEach(airport => {
+    const dLat = (airport.lat - lat) * toRad;
+    const dLon = (airport.lon - lon) * toRad;
+    const a = Math.sin(dLat / 2) ** 2 +
+      Math.cos(lat * toRad) * Math.cos(airport.lat * toRad) * Math.sin(dLon / 2) ** 2;
+    if (a < nearestDistance) {
+      nearestDistance = a;
+      nearest = airport;
+    }
+  });
+
+  return nearest;
+};
@@ -0,0 +1,191 @@
+import SunCalc from 'suncalc';
+import { getSunVisibility } from './sunPositionService';
+import { PositionAtTime, headingAt } from './sunEventService';
+import { SunSide, calculateBearing, formatDuration, normalizeRelativeBearing } from './seatRecommendationService';
+import { LocalTimes, formatClockTime, toLocalTimes } from './timeZoneService';
+
+export type AuroraLikelihood = 'high' | 'moderate' | 'low' | 'none';
+
+export interface AuroraWindow {
+  start: LocalTimes;
+  end: LocalTimes;
+  startString: string;           // clock time at the origin
+  endString: string;
+  startProgressPercent: number;
+  endProgressPercent: number;
+  minutes: number;
+  likelihood: AuroraLikelihood;  // best chance during the window
+  maxGeomagneticLatitude: number; // furthest poleward, in absolute degrees
+  poleSide: SunSide;             // side of the cabin facing the geomagnetic pole for most of the window
+}
+
+export interface AuroraAnalysis {
+  kp: number;
+  ovalLatitude: number;          // geomagnetic latitude of the oval's equatorward edge for this Kp
+  maxGeomagneticLatitude: number; // furthest poleward the flight gets while it is dark
+  windows: AuroraWindow[];       // dark stretches with a chance of aurora, in order
+  side: SunSide | 'none';        // side facing the pole across all windows
+  summary: string[];
+}
+
+// Northern geomagnetic (dipole) pole, IGRF-13 epoch 2020; the southern one is its antipode
+const GEOMAGNETIC_POLE = { lat: 80.65, lon: -72.68 };
+
+// Equatorward edge of the auroral oval near midnight: about 66.5° geomagnetic at Kp 0,
+// moving about 2° towards the equator per Kp step (NOAA SWPC rule of thumb)
+const OVAL_LATITUDE_QUIET = 66.5;
+const OVAL_SHIFT_PER_KP = 2.05;
+
+// From cruise altitude the lower edge of an aurora (~100 km up) shows on the poleward
+// horizon from several degrees of latitude equatorward of the oval
+const MODERATE_MARGIN = 4;
+const LOW_MARGIN = 8;
+
+const SEARCH_STEP_MS = 5 * 60 * 1000;
+
+const LIKELIHOOD_RANK: Record<AuroraLikelihood, number> = { none: 0, low: 1, moderate: 2, high: 3 };
+
+const LIKELIHOOD_TEXT: Record<Exclude<AuroraLikelihood, 'none'>, string> = {
+  high: 'good chance, possibly overhead',
+  moderate: 'fair chance, low over the poleward horizon',
+  low: 'only in a strong display, right on the horizon'
+};
+
+const rad = Math.PI / 180;
+
+/**
+ * Geomagnetic latitude of a point in a centred-dipole model of the earth's field
+ */
+export const getGeomagneticLatitude = (lat: number, lon: number): number => {
+  const sinLatitude = Math.sin(lat * rad) * Math.sin(GEOMAGNETIC_POLE.lat * rad) +
+    Math.cos(lat * rad) * Math.cos(GEOMAGNETIC_POLE.lat * rad) * Math.cos((lon - GEOMAGNETIC_POLE.lon) * rad);
+  return Math.asin(sinLatitude) / rad;
+};
+
+/**
+ * Geomagnetic latitude of the auroral oval's equatorward edge for a Kp index (0-9)
+ */
+export const getAuroralOvalLatitude = (kp: number): number => OVAL_LATITUDE_QUIET - OVAL_SHIFT_PER_KP * kp;
+
+/**
+ * Chance of seeing the aurora from cruise altitude at a geomagnetic latitude, ignoring darkness
+ */
+export const getAuroraLikelihood = (geomagneticLatitude: number, kp: number): AuroraLikelihood => {
+  const distance = Math.abs(geomagneticLatitude) - getAuroralOvalLatitude(kp);
+  if (distance >= 0) return 'high';
+  if (distance >= -MODERATE_MARGIN) return 'moderate';
+  if (distance >= -LOW_MARGIN) return 'low';
+  return 'none';
+};
+
+/**
+ * Side of the cabin facing the geomagnetic pole of the aircraft's hemisphere
+ */
+const poleSideAt = (positionAt: PositionAtTime, time: Date): SunSide | undefined => {
+  const position = positionAt(time);
+  const heading = headingAt(positionAt, time);
+  if (heading === undefined) return undefined;
+
+  const northern = getGeomagneticLatitude(position.lat, position.lon) >= 0;
+  const pole = northern ? GEOMAGNETIC_POLE : { lat: -GEOMAGNETIC_POLE.lat, lon: GEOMAGNETIC_POLE.lon + 180 };
+  const bearing = calculateBearing(position.lat, position.lon, pole.lat, pole.lon);
+  return normalizeRelativeBearing(bearing - heading) >= 0 ? 'right' : 'left';
+};
+
+/**
+ * Stretches of a flight dark enough and close enough to the auroral oval to see the
+ * aurora for a given Kp index, and the side of the cabin facing the pole
+ */
+export const analyzeAurora = (
+  positionAt: PositionAtTime,
+  start: Date,
+  end: Date,
+  originTimeZone: string,
+  destinationTimeZone: string,
+  kp: number,
+  darkSunElevation: number // sun elevation above the visible horizon below which the sky is dark enough
+): AuroraAnalysis => {
+  const windows: AuroraWindow[] = [];
+  const sideMinutes = { left: 0, right: 0 };
+  let maxGeomagneticLatitude = 0;
+  let darkMinutes = 0;
+
+  let current: { startMs: number; endMs: number; likelihood: AuroraLikelihood; maxLatitude: number; minutes: Record<SunSide, number> } | undefined;
+
+  const closeWindow = () => {
+    if (!current) return;
+    const startTime = new Date(current.startMs);
+    const endTime = new Date(current.endMs);
+    windows.push({
+      start: toLocalTimes(startTime, originTimeZone, destinationTimeZone),
+      end: toLocalTimes(endTime, originTimeZone, destinationTimeZone),
+      startString: formatClockTime(startTime, originTimeZone),
+      endString: formatClockTime(endTime, originTimeZone),
+      startProgressPercent: Math.round(positionAt(startTime).progressPercent),
+      endProgressPercent: Math.round(positionAt(endTime).progressPercent),
+      minutes: Math.round((current.endMs - current.startMs) / 60000),
+      likelihood: current.likelihood,
+      maxGeomagneticLatitude: Math.round(current.maxLatitude * 10) / 10,
+      poleSide: current.minutes.left > current.minutes.right ? 'left' : 'right'
+    });
+    current = undefined;
+  };
+
+  // Judge each step at its middle; windows open and close on step boundaries
+  for (let ms = start.getTime(); ms < end.getTime(); ms += SEARCH_STEP_MS) {
+    const stepEnd = Math.min(ms + SEARCH_STEP_MS, end.getTime());
+    const time = new Date((ms + stepEnd) / 2);
+    const position = positionAt(time);
+
+    const sunElevation = SunCalc.getPosition(time, position.lat, position.lon).altitude / rad;
+    const dark = getSunVisibility(sunElevation, position.altitude).elevationAboveHorizon < darkSunElevation;
+    const geomagneticLatitude = Math.abs(getGeomagneticLatitude(position.lat, position.lon));
+    const likelihood = dark ? getAuroraLikelihood(geomagneticLatitude, kp) : 'none';
+    if (dark) {
+      maxGeomagneticLatitude = Math.max(maxGeomagneticLatitude, geomagneticLatitude);
+      darkMinutes += (stepEnd - ms) / 60000;
+    }
+
+    if (likelihood === 'none') {
+      closeWindow();
+      continue;
+    }
+
+    current = current || { startMs: ms, endMs: ms, likelihood, maxLatitude: 0, minutes: { left: 0, right: 0 } };
+    current.endMs = stepEnd;
+    current.maxLatitude = Math.max(current.maxLatitude, geomagneticLatitude);
+    if (LIKELIHOOD_RANK[likelihood] > LIKELIHOOD_RANK[current.likelihood]) current.likelihood = likelihood;
+
+    const side = poleSideAt(positionAt, time);
+    if (side) {
+      current.minutes[side] += (stepEnd - ms) / 60000;
+      sideMinutes[side] += (stepEnd - ms) / 60000;
+    }
+  }
+  closeWindow();
+
+  const ovalLatitude = Math.round(getAuroralOvalLatitude(kp) * 10) / 10;
+  const side: AuroraAnalysis['side'] = windows.length === 0
+    ? 'none'
+    : sideMinutes.left > sideMinutes.right ? 'left' : 'right';
+
+  const summary: string[] = [];
+  if (darkMinutes === 0) {
+    summary.push('🌌 No aurora: the sky never gets dark enough on this flight');
+  } else if (windows.length === 0) {
+    summary.push(`🌌 Aurora unlikely at Kp ${kp}: while it's dark the flight stays below ${Math.round(maxGeomagneticLatitude)}° geomagnetic latitude (the oval reaches about ${Math.round(ovalLatitude)}°)`);
+  }
+  windows.forEach(window => {
+    const { likelihood } = window;
+    summary.push(`🌌 Aurora window at Kp ${kp}, ${window.startString}–${window.endString} (${window.startProgressPercent}–${window.endProgressPercent}% into the flight, ${formatDuration(window.minutes)}): ${LIKELIHOOD_TEXT[likelihood as Exclude<AuroraLikelihood, 'none'>]}; look out the ${window.poleSide.toUpperCase()} side, towards the pole`);
+  });
+
+  return {
+    kp,
+    ovalLatitude,
+    maxGeomagneticLatitude: Math.round(maxGeomagneticLatitude * 10) / 10,
+    windows,
+    side,
+    summary
+  };
+};
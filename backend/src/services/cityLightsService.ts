@@ -0,0 +1,135 @@
+import cityData from '../data/cities.json';
+import { calculateDistanceKm } from './flightPathService';
+import { EARTH_RADIUS_M, TERRESTRIAL_REFRACTION_K, getHorizonDip } from './sunPositionService';
+import { PositionAtTime, headingAt } from './sunEventService';
+import { CabinLayout, getSideCoverage } from './aircraftCabinService';
+import { SunSide, calculateBearing, normalizeRelativeBearing } from './seatRecommendationService';
+import { getLineOfSight } from './landmarkService';
+import { LocalTimes } from './timeZoneService';
+
+export interface City {
+  name: string;
+  country: string; // ISO 3166-1 alpha-2
+  lat: number;
+  lon: number;
+  population: number;
+}
+
+/**
+ * The parts of a sun timeline sample the city-lights report needs
+ */
+export interface CityLightsSample {
+  time: Date;
+  timeString: string;
+  times: LocalTimes;
+  lat: number;
+  lon: number;
+  altitude: number;              // metres
+  progressPercent: number;
+  elevationAboveHorizon: number; // sun, from the visible horizon
+}
+
+export interface CitySighting {
+  name: string;
+  country: string;
+  population: number;
+  side: SunSide;
+  time: LocalTimes;       // timeline sample where it is nearest (within the sampling interval)
+  timeString: string;
+  progressPercent: number;
+  distanceKm: number;
+}
+
+export interface CityLightsAnalysis {
+  cities: CitySighting[];                // in order of passing
+  population: Record<SunSide, number>;   // total population of the cities seen on each side
+  side: SunSide | 'either' | 'none';     // side with the bigger cities
+  summary: string[];
+}
+
+// Bundled cities of 300,000 people or more (GeoNames, city proper), biggest first
+const CITIES: City[] = cityData as City[];
+
+// Difference (in % of the population seen) below which neither side is clearly better
+const EITHER_SIDE_MARGIN = 20;
+
+const CITIES_PER_SIDE_IN_SUMMARY = 4;
+
+const rad = Math.PI / 180;
+
+const formatPopulation = (population: number): string =>
+  population >= 1000000 ? `${Math.round(population / 100000) / 10}M` : `${Math.round(population / 1000)}k`;
+
+/**
+ * Ground distance to the visible horizon from an altitude, in km
+ */
+const getHorizonDistanceKm = (altitudeM: number): number =>
+  getHorizonDip(altitudeM) * rad * EARTH_RADIUS_M / (1 - TERRESTRIAL_REFRACTION_K) / 1000;
+
+/**
+ * Major cities within the visible horizon on each side while it is dark, from the
+ * sun timeline, and the side with the bigger cities
+ */
+export const analyzeCityLights = (
+  timeline: CityLightsSample[],
+  positionAt: PositionAtTime,
+  darkSunElevation: number, // sun elevation above the visible horizon below which city lights stand out
+  cabinLayout?: CabinLayout
+): CityLightsAnalysis => {
+  const nearest = new Map<City, CitySighting>();
+
+  timeline
+    .filter(sample => sample.elevationAboveHorizon < darkSunElevation)
+    .forEach(sample => {
+      const heading = headingAt(positionAt, sample.time);
+      if (heading === undefined) return;
+      const horizonKm = getHorizonDistanceKm(sample.altitude);
+
+      CITIES.forEach(city => {
+        if (Math.abs(city.lat - sample.lat) * 111 > horizonKm) return;
+        const distanceKm = calculateDistanceKm([sample.lat, sample.lon], [city.lat, city.lon]);
+        if (distanceKm > horizonKm) return;
+        if ((nearest.get(city)?.distanceKm ?? Infinity) <= distanceKm) return;
+
+        const relativeBearing = normalizeRelativeBearing(calculateBearing(sample.lat, sample.lon, city.lat, city.lon) - heading);
+        const { elevationAngle } = getLineOfSight(sample.altitude, 0, distanceKm);
+        const coverage = getSideCoverage(cabinLayout, relativeBearing, elevationAngle);
+        if (coverage.state !== 'clear') return;
+
+        nearest.set(city, {
+          name: city.name,
+          country: city.country,
+          population: city.population,
+          side: coverage.side,
+          time: sample.times,
+          timeString: sample.timeString,
+          progressPercent: Math.round(sample.progressPercent),
+          distanceKm: Math.round(distanceKm)
+        });
+      });
+    });
+
+  const cities = [...nearest.values()].sort((a, b) => a.time.utc.localeCompare(b.time.utc));
+  const population = { left: 0, right: 0 };
+  cities.forEach(city => { population[city.side] += city.population; });
+
+  const total = population.left + population.right;
+  const side: CityLightsAnalysis['side'] = total === 0
+    ? 'none'
+    : Math.abs(population.left - population.right) / total * 100 < EITHER_SIDE_MARGIN
+      ? 'either'
+      : population.left > population.right ? 'left' : 'right';
+
+  const summary: string[] = [];
+  (['left', 'right'] as SunSide[]).forEach(cabinSide => {
+    const biggest = cities
+      .filter(city => city.side === cabinSide)
+      .sort((a, b) => b.population - a.population)
+      .slice(0, CITIES_PER_SIDE_IN_SUMMARY);
+    if (biggest.length === 0) return;
+    const names = biggest.map(city => `${city.name} (${formatPopulation(city.population)}, ~${city.timeString})`);
+    summary.push(`🌃 City lights on the ${cabinSide.toUpperCase()}: ${names.join(', ')}`);
+  });
+
+  return { cities, population, side, summary };
+};
@@ -0,0 +1,327 @@
+import landData from '../data/land.json';
+import { calculateDistanceKm } from './flightPathService';
+import { EARTH_RADIUS_M, TERRESTRIAL_REFRACTION_K, getHorizonDip } from './sunPositionService';
+import { PositionAtTime, headingAt } from './sunEventService';
+import { SunSide, formatDuration } from './seatRecommendationService';
+import { LocalTimes, formatClockTime, toLocalTimes } from './timeZoneService';
+
+export type Surface = 'land' | 'sea';
+export type SideSurface = Surface | 'coast'; // 'coast': both land and sea in view on that side
+
+/**
+ * The parts of a sun timeline sample the surface classification needs
+ */
+export interface SurfaceSample {
+  time: Date;
+  timeString: string;
+  times: LocalTimes;
+  lat: number;
+  lon: number;
+  altitude: number; // metres
+  progressPercent: number;
+}
+
+export interface SurfaceView {
+  time: LocalTimes;
+  timeString: string;
+  progressPercent: number;
+  below: Surface;
+  left: SideSurface;
+  right: SideSurface;
+}
+
+export interface CoastCrossing {
+  time: LocalTimes;
+  timeString: string;            // clock time at the origin
+  progressPercent: number;
+  lat: number;
+  lon: number;
+  direction: 'landfall' | 'out-to-sea';
+  sea: string;                   // nearest named sea or ocean
+  coastlineSide: SunSide | 'both'; // side(s) where the coastline runs away from the aircraft
+  description: string;
+}
+
+export interface CoastAnalysis {
+  samples: SurfaceView[];        // one per sun timeline sample
+  crossings: CoastCrossing[];    // in order
+  landMinutes: number;
+  seaMinutes: number;
+  openOceanMinutes: number;      // over sea with no land in view on either side
+  summary: string[];
+}
+
+// [lon, lat] points; bundled polygons have the outer ring first, then any holes
+export type Ring = [number, number][];
+export interface Polygon {
+  rings: Ring[];
+  bbox: [number, number, number, number]; // west, south, east, north of the outer ring
+}
+
+export const toPolygon = (rings: Ring[]): Polygon => {
+  const lons = rings[0].map(([lon]) => lon);
+  const lats = rings[0].map(([, lat]) => lat);
+  return { rings, bbox: [Math.min(...lons), Math.min(...lats), Math.max(...lons), Math.max(...lats)] };
+};
+
+// Natural Earth 1:110m land polygons (via world-atlas).
+// Longitudes run on past ±180° where a ring crosses the antimeridian, and rings round
+// a pole are closed along it, so the rings are plain planar polygons.
+const LAND: Polygon[] = (landData as Ring[][]).map(toPolygon);
+
+// Reference points for naming seas and oceans: a crossing takes the name of the nearest one
+const SEAS: Record<string, [number, number][]> = {
+  'Arabian Sea': [[15, 64], [20, 62], [10, 68]],
+  'Bay of Bengal': [[15, 88], [10, 86]],
+  'Andaman Sea': [[10, 96]],
+  'South China Sea': [[12, 113], [18, 115], [6, 110]],
+  'East China Sea': [[29, 125]],
+  'Yellow Sea': [[35, 123]],
+  'Sea of Japan': [[40, 135]],
+  'Philippine Sea': [[20, 130]],
+  'Java Sea': [[-5, 111]],
+  'Celebes Sea': [[3, 122]],
+  'Persian Gulf': [[27, 51]],
+  'Gulf of Oman': [[24.5, 58.5]],
+  'Red Sea': [[20, 38.5], [25, 35.5], [15, 41]],
+  'Gulf of Aden': [[12.5, 48]],
+  'Mediterranean Sea': [[35, 18], [38, 5], [34, 28], [40, 13]],
+  'Aegean Sea': [[38.5, 25]],
+  'Adriatic Sea': [[43, 15]],
+  'Black Sea': [[43, 34]],
+  'Caspian Sea': [[42, 50]],
+  'Baltic Sea': [[57, 19], [60, 20]],
+  'North Sea': [[56, 3]],
+  'Norwegian Sea': [[67, 3]],
+  'Barents Sea': [[73, 40]],
+  'English Channel': [[50, -1.5]],
+  'Irish Sea': [[53.5, -5]],
+  'Bay of Biscay': [[45, -4]],
+  'Atlantic': [[40, -40], [50, -30], [30, -50], [55, -20], [25, -30], [45, -60], [53, -13], [46, -12], [38, -15], [42, -65], [33, -72], [28, -75], [10, -40], [-20, -20], [-35, -10], [-5, -25], [-25, -40]],
+  'Labrador Sea': [[57, -55]],
+  'Greenland Sea': [[75, -5]],
+  'Baffin Bay': [[72, -65]],
+  'Hudson Bay': [[60, -85]],
+  'Gulf of Mexico': [[25, -90]],
+  'Caribbean Sea': [[15, -75]],
+  'Gulf of Guinea': [[2, 3]],
+  'Indian Ocean': [[-20, 80], [-10, 70], [-30, 60], [0, 80]],
+  'Mozambique Channel': [[-18, 41]],
+  'Tasman Sea': [[-38, 160]],
+  'Coral Sea': [[-15, 155]],
+  'Timor Sea': [[-10, 130]],
+  'Pacific': [[35, -150], [30, 170], [45, -170], [20, -130], [40, 155], [35, 145], [45, -128], [35, -125], [50, -135], [20, -110], [0, -90], [-30, -75], [-20, -130], [-35, -100], [-15, -160], [-40, -160]],
+  'Bering Sea': [[58, -178]],
+  'Sea of Okhotsk': [[53, 150]],
+  'Gulf of Alaska': [[57, -145]],
+  'Gulf of California': [[28, -112]],
+  'Beaufort Sea': [[72, -145]],
+  'Southern Ocean': [[-60, 0], [-60, 90], [-60, -90], [-60, 180]],
+  'Arctic Ocean': [[85, 0], [80, -150], [80, 130]]
+};
+
+// Ground distances, as fractions of the way to the visible horizon, checked out of each side
+const SIDE_FRACTIONS = [0.1, 0.25, 0.45, 0.7, 1];
+// Beyond this the surface is too hazy to tell land from sea
+const MAX_SIDE_RANGE_KM = 250;
+// How far out to sea to look for the sea's name at a crossing
+const SEA_PROBE_KM = 30;
+
+const SEARCH_STEP_MS = 60 * 1000;
+const TIME_TOLERANCE_MS = 1000;
+
+const CROSSINGS_IN_SUMMARY = 6;
+// Open-ocean stretches shorter than this are left out of the summary
+const MIN_OPEN_OCEAN_MINUTES = 60;
+
+const rad = Math.PI / 180;
+
+const getHorizonDistanceKm = (altitudeM: number): number =>
+  getHorizonDip(altitudeM) * rad * EARTH_RADIUS_M / (1 - TERRESTRIAL_REFRACTION_K) / 1000;
+
+const insideRing = (ring: Ring, lon: number, lat: number): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lon < (xj - xi) * (lat - yi) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+/**
+ * Whether a point is inside one of the bundled polygons, trying the longitude
+ * either side of the antimeridian
+ */
+export const insidePolygon = ({ rings, bbox: [west, south, east, north] }: Polygon, lat: number, lon: number): boolean => {
+  if (lat < south || lat > north) return false;
+  const x = ((lon + 540) % 360) - 180;
+  return [x, x - 360, x + 360].some(wrapped => wrapped >= west && wrapped <= east &&
+    insideRing(rings[0], wrapped, lat) && !rings.slice(1).some(hole => insideRing(hole, wrapped, lat)));
+};
+
+/**
+ * Whether a point is on land, at the resolution of the bundled coastline (about 10 km)
+ */
+export const isLand = (lat: number, lon: number): boolean => LAND.some(polygon => insidePolygon(polygon, lat, lon));
+
+/**
+ * Point a ground distance away along an initial compass bearing
+ */
+const offsetPosition = (lat: number, lon: number, bearing: number, distanceKm: number): [number, number] => {
+  const angle = distanceKm * 1000 / EARTH_RADIUS_M;
+  const [lat1, lon1, theta] = [lat * rad, lon * rad, bearing * rad];
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(angle) + Math.cos(lat1) * Math.sin(angle) * Math.cos(theta));
+  const lon2 = lon1 + Math.atan2(Math.sin(theta) * Math.sin(angle) * Math.cos(lat1), Math.cos(angle) - Math.sin(lat1) * Math.sin(lat2));
+  return [lat2 / rad, lon2 / rad];
+};
+
+/**
+ * What lies out of one side of the cabin, square to the heading, as far as the horizon
+ */
+const sideSurface = (lat: number, lon: number, bearing: number, rangeKm: number): SideSurface => {
+  const land = SIDE_FRACTIONS.map(fraction => isLand(...offsetPosition(lat, lon, bearing, fraction * rangeKm)));
+  if (land.every(Boolean)) return 'land';
+  if (land.some(Boolean)) return 'coast';
+  return 'sea';
+};
+
+const surfaceAt = (lat: number, lon: number, altitudeM: number, heading: number) => {
+  const rangeKm = Math.min(MAX_SIDE_RANGE_KM, getHorizonDistanceKm(altitudeM));
+  return {
+    below: (isLand(lat, lon) ? 'land' : 'sea') as Surface,
+    left: sideSurface(lat, lon, heading - 90, rangeKm),
+    right: sideSurface(lat, lon, heading + 90, rangeKm)
+  };
+};
+
+/**
+ * Nearest named sea or ocean to a point
+ */
+const getSeaName = (lat: number, lon: number): string => {
+  let nearest = '';
+  let nearestKm = Infinity;
+  Object.entries(SEAS).forEach(([name, points]) => {
+    points.forEach(point => {
+      const distanceKm = calculateDistanceKm([lat, lon], point);
+      if (distanceKm < nearestKm) {
+        nearestKm = distanceKm;
+        nearest = name;
+      }
+    });
+  });
+  return nearest;
+};
+
+const landAt = (positionAt: PositionAtTime, ms: number): boolean => {
+  const position = positionAt(new Date(ms));
+  return isLand(position.lat, position.lon);
+};
+
+/**
+ * Land, sea or coastline below and out of each side along the flight, and the moments
+ * the aircraft crosses a coast with the side the coastline can be seen running off to
+ */
+export const analyzeCoastlines = (
+  timeline: SurfaceSample[],
+  positionAt: PositionAtTime,
+  start: Date,
+  end: Date,
+  originTimeZone: string,
+  destinationTimeZone: string
+): CoastAnalysis => {
+  const samples: SurfaceView[] = timeline.map(sample => {
+    const heading = headingAt(positionAt, sample.time) ?? 0;
+    return {
+      time: sample.times,
+      timeString: sample.timeString,
+      progressPercent: Math.round(sample.progressPercent),
+      ...surfaceAt(sample.lat, sample.lon, sample.altitude, heading)
+    };
+  });
+
+  // Scan for a change between land and sea below, then bisect to the second
+  const crossings: CoastCrossing[] = [];
+  let previousLand = landAt(positionAt, start.getTime());
+  for (let ms = start.getTime() + SEARCH_STEP_MS; ms <= end.getTime(); ms += SEARCH_STEP_MS) {
+    const land = landAt(positionAt, ms);
+    if (land === previousLand) continue;
+
+    let a = ms - SEARCH_STEP_MS;
+    let b = ms;
+    while (b - a > TIME_TOLERANCE_MS) {
+      const mid = (a + b) / 2;
+      if (landAt(positionAt, mid) === previousLand) a = mid; else b = mid;
+    }
+    crossings.push(toCrossing(positionAt, new Date(b), land, originTimeZone, destinationTimeZone));
+    previousLand = land;
+  }
+
+  // Time over land and sea, and over sea with nothing else in view, from the samples
+  let landMinutes = 0;
+  let seaMinutes = 0;
+  let openOceanMinutes = 0;
+  samples.slice(1).forEach((sample, i) => {
+    const minutes = (timeline[i + 1].time.getTime() - timeline[i].time.getTime()) / 60000;
+    const previous = samples[i];
+    if (previous.below === 'land') landMinutes += minutes; else seaMinutes += minutes;
+    if (previous.below === 'sea' && previous.left === 'sea' && previous.right === 'sea' &&
+        sample.below === 'sea' && sample.left === 'sea' && sample.right === 'sea') {
+      openOceanMinutes += minutes;
+    }
+  });
+
+  const summary: string[] = [];
+  crossings.slice(0, CROSSINGS_IN_SUMMARY).forEach(crossing => {
+    summary.push(`🏖️ ${crossing.description} (${crossing.progressPercent}% into the flight)`);
+  });
+  if (crossings.length > CROSSINGS_IN_SUMMARY) {
+    summary.push(`🏖️ ...and ${crossings.length - CROSSINGS_IN_SUMMARY} more coast crossings`);
+  }
+  if (openOceanMinutes >= MIN_OPEN_OCEAN_MINUTES) {
+    summary.push(`🌊 ${formatDuration(openOceanMinutes)} over open water with no land in sight on either side`);
+  }
+
+  return {
+    samples,
+    crossings,
+    landMinutes: Math.round(landMinutes),
+    seaMinutes: Math.round(seaMinutes),
+    openOceanMinutes: Math.round(openOceanMinutes),
+    summary
+  };
+};
+
+const toCrossing = (
+  positionAt: PositionAtTime,
+  time: Date,
+  landfall: boolean,
+  originTimeZone: string,
+  destinationTimeZone: string
+): CoastCrossing => {
+  const position = positionAt(time);
+  const heading = headingAt(positionAt, time) ?? 0;
+
+  // Name the sea from a point just off the coast, behind the aircraft on landfall and ahead of it heading out
+  const [seaLat, seaLon] = offsetPosition(position.lat, position.lon, landfall ? heading + 180 : heading, SEA_PROBE_KM);
+  const sea = getSeaName(seaLat, seaLon);
+
+  const { left, right } = surfaceAt(position.lat, position.lon, position.altitude, heading);
+  const coastlineSide: CoastCrossing['coastlineSide'] =
+    left === 'coast' && right !== 'coast' ? 'left' : right === 'coast' && left !== 'coast' ? 'right' : 'both';
+
+  const timeString = formatClockTime(time, originTimeZone);
+  const view = coastlineSide === 'both' ? 'on both sides' : `on the ${coastlineSide}`;
+
+  return {
+    time: toLocalTimes(time, originTimeZone, destinationTimeZone),
+    timeString,
+    progressPercent: Math.round(position.progressPercent),
+    lat: Math.round(position.lat * 100) / 100,
+    lon: Math.round(position.lon * 100) / 100,
+    direction: landfall ? 'landfall' : 'out-to-sea',
+    sea,
+    coastlineSide,
+    description: `Crossing the ${sea} coast ${landfall ? 'inland' : 'out to sea'} at ${timeString}, coastline visible ${view}`
+  };
+};
@@ -0,0 +1,94 @@
+import countryData from '../data/countries.json';
+import { Polygon, Ring, insidePolygon, toPolygon } from './coastlineService';
+import { PositionAtTime } from './sunEventService';
+import { LocalTimes, formatClockTime, toLocalTimes } from './timeZoneService';
+
+export interface Country {
+  name: string;
+  code?: string; // ISO 3166-1 alpha-2; unset for disputed regions (Northern Cyprus, Somaliland)
+  polygons: Polygon[];
+}
+
+export interface CountryOverflight {
+  name: string;
+  code?: string;
+  entry: LocalTimes;
+  exit: LocalTimes;
+  entryString: string;          // clock time at the origin
+  exitString: string;
+  entryProgressPercent: number;
+  exitProgressPercent: number;
+  minutes: number;
+}
+
+// Natural Earth 1:110m admin-0 countries (via world-atlas), prepared like the land polygons
+const COUNTRIES: Country[] = (countryData as { name: string; code?: string; polygons: Ring[][] }[])
+  .map(({ name, code, polygons }) => ({ name, code, polygons: polygons.map(toPolygon) }));
+
+const SEARCH_STEP_MS = 60 * 1000;
+const TIME_TOLERANCE_MS = 1000;
+
+/**
+ * Country below a point, or undefined over the sea
+ */
+export const getCountryAt = (lat: number, lon: number): Country | undefined =>
+  COUNTRIES.find(country => country.polygons.some(polygon => insidePolygon(polygon, lat, lon)));
+
+const countryAt = (positionAt: PositionAtTime, ms: number): Country | undefined => {
+  const position = positionAt(new Date(ms));
+  return getCountryAt(position.lat, position.lon);
+};
+
+/**
+ * Countries and regions the flight passes over, in order, with the moment it enters and
+ * leaves each one (border or coast) to the second. A country left and re-entered appears again.
+ */
+export const getOverflownCountries = (
+  positionAt: PositionAtTime,
+  start: Date,
+  end: Date,
+  originTimeZone: string,
+  destinationTimeZone: string
+): CountryOverflight[] => {
+  const countries: CountryOverflight[] = [];
+  let current = countryAt(positionAt, start.getTime());
+  let entryMs = start.getTime();
+
+  const leave = (country: Country | undefined, exitMs: number) => {
+    if (!country) return;
+    const entry = new Date(entryMs);
+    const exit = new Date(exitMs);
+    countries.push({
+      name: country.name,
+      code: country.code,
+      entry: toLocalTimes(entry, originTimeZone, destinationTimeZone),
+      exit: toLocalTimes(exit, originTimeZone, destinationTimeZone),
+      entryString: formatClockTime(entry, originTimeZone),
+      exitString: formatClockTime(exit, originTimeZone),
+      entryProgressPercent: Math.round(positionAt(entry).progressPercent),
+      exitProgressPercent: Math.round(positionAt(exit).progressPercent),
+      minutes: Math.round((exitMs - entryMs) / 60000)
+    });
+  };
+
+  // Scan for a change of country (or sea) below, then bisect to the second
+  for (let ms = start.getTime() + SEARCH_STEP_MS; ms <= end.getTime(); ms += SEARCH_STEP_MS) {
+    const country = countryAt(positionAt, ms);
+    if (country === current) continue;
+
+    let a = ms - SEARCH_STEP_MS;
+    let b = ms;
+    while (b - a > TIME_TOLERANCE_MS) {
+      const mid = (a + b) / 2;
+      if (countryAt(positionAt, mid) === current) a = mid; else b = mid;
+    }
+
+    // A third country crossed within one step is skipped; at 1:110m that is a sliver
+    leave(current, b);
+    current = country;
+    entryMs = b;
+  }
+  leave(current, end.getTime());
+
+  return countries;
+};
@@ -1,24 +1,126 @@
-import SunCalc from 'suncalc';
-import { AIRPORTS } from './flightPathService';
+import { getAirport, getAirportCoordinates } from './airportService';
+import { LocalTimes, formatClockTime, toLocalTimes } from './timeZoneService';
+import { Waypoint, calculateFlightPath, planFlight } from './flightPathService';
+import { FlightPhase, FlightProfile, stateAtMinute } from './aircraftPerformanceService';
+import {
+  CabinLayout,
+  CabinSide,
+  describeSideSeating,
+  formatRowRanges,
+  getCabinLayout,
+  getRowViews,
+  getSideCoverage
+} from './aircraftCabinService';
+import { GROUND_SUNRISE_ELEVATION, SUN_SEMI_DIAMETER, calculateSunPositions, toCompassAzimuth } from './sunPositionService';
+import { SeatObjective, SunExposure, getSunExposure, normalizeRelativeBearing } from './seatRecommendationService';
+import { MoonAnalysis, analyzeMoon } from './moonPositionService';
+import { NightSkyAnalysis, analyzeNightSky } from './nightSkyService';
+import { EclipseAnalysis, analyzeSolarEclipses } from './solarEclipseService';
+import { OpticsAnalysis, analyzeOptics } from './opticsService';
+import { CityLightsAnalysis, analyzeCityLights } from './cityLightsService';
+import { CoastAnalysis, analyzeCoastlines } from './coastlineService';
+import { AuroraAnalysis, AuroraLikelihood, analyzeAurora, getAuroraLikelihood, getGeomagneticLatitude } from './auroraService';
+import {
+  AircraftPosition,
+  PolarCondition,
+  PositionAtTime,
+  SunEventPoint,
+  SunEventType,
+  SunThreshold,
+  findPolarSegments,
+  findSunEvents,
+  headingAt,
+  sampleSun,
+  splitByThresholds
+} from './sunEventService';
+
+export type SunConditionType =
+  | 'NIGHT'
+  | 'ASTRONOMICAL_TWILIGHT'
+  | 'NAUTICAL_TWILIGHT'
+  | 'CIVIL_TWILIGHT'
+  | 'BLUE_HOUR'
+  | 'GOLDEN_HOUR'
+  | 'DAYLIGHT';
+
+export type TwilightBand = 'CIVIL' | 'NAUTICAL' | 'ASTRONOMICAL';
+
+/**
+ * Sun elevation above the visible horizon (degrees) at which each condition begins.
+ * Blue and golden hour overlap civil twilight and take precedence over it. Each condition
+ * includes the elevation it begins at, so where blue hour ends golden hour begins
+ * (−4° exactly is golden hour).
+ */
+export interface SunConditionThresholds {
+  astronomicalTwilight: number;
+  nauticalTwilight: number;
+  civilTwilight: number;
+  blueHour: number;
+  goldenHour: number; // also where blue hour ends
+  daylight: number;   // where golden hour ends
+}
+
+export const DEFAULT_SUN_CONDITION_THRESHOLDS: SunConditionThresholds = {
+  astronomicalTwilight: -18,
+  nauticalTwilight: -12,
+  civilTwilight: -6,
+  blueHour: -6,
+  goldenHour: -4,
+  daylight: 6
+};
 
 export interface SunCondition {
   time: Date;
   timeString: string;
   lat: number;
   lon: number;
-  sunElevation: number;
+  sunElevation: number;          // geometric elevation
+  apparentElevation: number;     // with atmospheric refraction
+  horizonDip: number;            // visible horizon below 0° at the aircraft's altitude
+  elevationAboveHorizon: number; // what passengers see: apparent elevation above the visible horizon
   sunAzimuth: number;
-  condition: 'NIGHT' | 'TWILIGHT' | 'GOLDEN_HOUR' | 'DAYLIGHT';
+  condition: SunConditionType;
+  twilight?: TwilightBand; // set while the sun is between the horizon and astronomical twilight
   progressPercent: number;
+  times: LocalTimes;
+  altitude: number; // aircraft altitude in metres
+  phase: FlightPhase;
+  geomagneticLatitude: number;
+  aurora?: AuroraLikelihood; // chance of aurora, when a Kp index was given and the sky is dark
 }
 
 export interface SunEvent {
+  type: SunEventType;
   time: Date;
   timeString: string;
   location: string;
   lat: number;
   lon: number;
   progressPercent: number;
+  times: LocalTimes;
+  altitude: number;
+  sunElevation: number;
+  apparentElevation: number;     // above the aircraft's horizontal plane
+  elevationAboveHorizon: number;
+  sunAzimuth: number;
+  relativeBearing?: number;      // sun off the nose, + right / − left (unset while the aircraft is stationary)
+  view?: SunEventView;           // set for sunrise, sunset and golden hour in flight
+}
+
+// Which windows see a scenic moment
+export interface SunEventView {
+  side: CabinSide;
+  visible: boolean;        // from at least one window on that side
+  description: string;     // "visible from forward rows of the right side", "not visible from any window (too far ahead)"
+  clearRows?: string;      // "1-10, 20-25, 43-58", when the aircraft type is known
+  obstructedRows?: string; // out of the window's view, or hidden by the wing or an engine
+}
+
+export interface PolarPeriod {
+  type: PolarCondition; // the ground below never sees the sun set (or rise) that day
+  start: SunEvent;
+  end: SunEvent;
+  minutes: number;
 }
 
 export interface FlightSunAnalysis {
@@ -26,16 +128,72 @@ export interface FlightSunAnalysis {
   willSeeSunset: boolean;
   willSeeNight: boolean;
   willSeeGoldenHour: boolean;
-  sunrise?: SunEvent;
-  sunset?: SunEvent;
+  sunrise?: SunEvent;       // first sunrise seen from the cabin (horizon dip + refraction at altitude)
+  sunset?: SunEvent;        // first sunset seen from the cabin
+  sunrises: SunEvent[];     // all of them; long eastbound or polar flights can see several
+  sunsets: SunEvent[];
+  groundSunrise?: SunEvent; // sea-level sunrise at the point below the aircraft
+  groundSunset?: SunEvent;
+  polarSegments: PolarPeriod[];
+  events: SunEvent[];       // every precisely timed event, in order
   summary: string[];
   recommendations: string[];
   seatSuggestion: 'left' | 'right' | 'either';
   timeline: SunCondition[];
-  nightDuration?: number; // minutes of night flight
-  dayDuration?: number;   // minutes of day flight
+  nightDuration?: number;      // minutes of night flight (sun below the golden hour)
+  dayDuration?: number;        // minutes of day flight
+  goldenHourDuration?: number; // minutes of golden hour
+  blueHourDuration?: number;   // minutes of blue hour
+  conditionDurations: Record<SunConditionType, number>; // minutes per condition
+  twilightDurations: Record<TwilightBand, number>;      // minutes per twilight band (overlaps blue/golden hour)
+  thresholds: SunConditionThresholds;
+  moon?: MoonAnalysis;      // phase, moonrise/moonset and the side for the moon
+  nightSky?: NightSkyAnalysis; // planets, bright stars and the Milky Way on each side while dark
+  aurora?: AuroraAnalysis;     // aurora windows for the Kp index given
+  eclipses?: EclipseAnalysis;  // solar eclipses the flight passes through
+  optics?: OpticsAnalysis;     // glory, shadow, rainbow and noctilucent cloud windows
+  cityLights?: CityLightsAnalysis; // major cities in view on each side at night
+  coast?: CoastAnalysis;       // land and sea below and on each side, and coast crossings
 }
 
+/**
+ * Merge caller overrides into the default thresholds and check they still make sense
+ */
+export const resolveConditionThresholds = (overrides: Partial<SunConditionThresholds> = {}): SunConditionThresholds => {
+  const thresholds = { ...DEFAULT_SUN_CONDITION_THRESHOLDS, ...overrides };
+
+  Object.entries(thresholds).forEach(([name, value]) => {
+    if (typeof value !== 'number' || !isFinite(value) || Math.abs(value) > 90) {
+      throw new Error(`Invalid ${name} threshold: ${value}`);
+    }
+  });
+
+  const { astronomicalTwilight, nauticalTwilight, civilTwilight, blueHour, goldenHour, daylight } = thresholds;
+  if (!(astronomicalTwilight < nauticalTwilight && nauticalTwilight < civilTwilight && civilTwilight < 0)) {
+    throw new Error('Twilight thresholds must increase from astronomical to civil and stay below the horizon');
+  }
+  if (!(blueHour >= civilTwilight && blueHour < goldenHour && goldenHour < daylight)) {
+    throw new Error('Blue hour must start within civil twilight, before golden hour, which must start before daylight');
+  }
+
+  return thresholds;
+};
+
+/**
+ * Events located exactly along the flight, in addition to elevation maxima
+ */
+const getSunEventThresholds = (thresholds: SunConditionThresholds): SunThreshold[] => [
+  { metric: 'elevationAboveHorizon', value: -SUN_SEMI_DIAMETER, rising: 'sunrise', setting: 'sunset' },
+  { metric: 'elevation', value: GROUND_SUNRISE_ELEVATION, rising: 'ground-sunrise', setting: 'ground-sunset' },
+  { metric: 'elevationAboveHorizon', value: thresholds.blueHour, rising: 'blue-hour-start', setting: 'blue-hour-end' },
+  { metric: 'elevationAboveHorizon', value: thresholds.goldenHour, rising: 'blue-hour-end', setting: 'blue-hour-start' },
+  { metric: 'elevationAboveHorizon', value: thresholds.goldenHour, rising: 'golden-hour-start', setting: 'golden-hour-end' },
+  { metric: 'elevationAboveHorizon', value: thresholds.daylight, rising: 'golden-hour-end', setting: 'golden-hour-start' },
+  { metric: 'elevationAboveHorizon', value: thresholds.civilTwilight, rising: 'civil-dawn', setting: 'civil-dusk' },
+  { metric: 'elevationAboveHorizon', value: thresholds.nauticalTwilight, rising: 'nautical-dawn', setting: 'nautical-dusk' },
+  { metric: 'elevationAboveHorizon', value: thresholds.astronomicalTwilight, rising: 'astronomical-dawn', setting: 'astronomical-dusk' }
+];
+
 /**
  * Enhanced flight sun analysis that determines what sun conditions 
  * the user will experience during their flight
@@ -43,21 +201,23 @@ export interface FlightSunAnalysis {
 export const analyzeFlightSunConditions = (
   fromAirport: string,
   toAirport: string,
-  departureDate: string,    // "2024-01-15"
-  departureTime: string,    // "14:30"
-  flightDuration: number    // hours
+  startTime: Date,          // departure instant (already resolved from origin-local time)
+  flightDuration: number,   // hours
+  aircraftType?: string,    // A320, B737, B777, B787, A380
+  conditionThresholds: Partial<SunConditionThresholds> = {},
+  kpIndex?: number,         // geomagnetic activity (0-9) for the aurora estimate
+  plannedProfile?: FlightProfile, // the route's profile when the caller has already planned it
+  objective: SeatObjective = 'view-sun'
 ): FlightSunAnalysis => {
-  
-  // Get airport coordinates
-  const fromCoords = AIRPORTS[fromAirport];
-  const toCoords = AIRPORTS[toAirport];
-  
-  if (!fromCoords || !toCoords) {
-    throw new Error(`Airport not found: ${fromAirport} or ${toAirport}`);
-  }
+  const thresholds = resolveConditionThresholds(conditionThresholds);
+
+  // Get airport coordinates and timezones
+  const fromCoords = getAirportCoordinates(fromAirport);
+  const toCoords = getAirportCoordinates(toAirport);
+  const originTimeZone = getAirport(fromAirport).timezone;
+  const destinationTimeZone = getAirport(toAirport).timezone;
 
   // Calculate flight timeline
-  const startTime = new Date(`${departureDate}T${departureTime}:00Z`);
   const endTime = new Date(startTime.getTime() + (flightDuration * 60 * 60 * 1000));
   
   console.log(`=== ENHANCED SUN ANALYSIS ===`);
@@ -66,55 +226,181 @@ export const analyzeFlightSunConditions = (
   console.log(`Arrival: ${endTime.toISOString()}`);
   console.log(`Duration: ${flightDuration} hours`);
 
-  // Generate sampling points along flight path
-  const samplingPoints = generateFlightSamplingPoints(
-    fromCoords, 
-    toCoords, 
-    startTime, 
-    flightDuration
-  );
+  // Taxi/climb/cruise/descent profile fitted to the scheduled duration
+  const profile = plannedProfile || planFlight(fromAirport, toAirport, { aircraftType, durationHours: flightDuration });
+
+  // Aircraft position at any instant, and 15-minute sampling points along it
+  const positionAt = createProfilePosition(fromCoords, toCoords, startTime, flightDuration, profile);
+  const samplingPoints = generateSamplingPoints(positionAt, startTime, endTime);
+  console.log(`Generated ${samplingPoints.length} sampling points`);
 
   // Calculate sun conditions for each sampling point
-  const sunAnalysis = analyzeSunConditions(samplingPoints);
+  const sunAnalysis = analyzeSunConditions(samplingPoints, originTimeZone, destinationTimeZone, thresholds, kpIndex);
+
+  // Locate sunrise/sunset and other events exactly
+  const events = detectSunEvents(positionAt, startTime, endTime, originTimeZone, destinationTimeZone, thresholds);
+  [...events.sunrises, ...events.sunsets].forEach(event => {
+    console.log(`${event.type === 'sunrise' ? '🌅 Sunrise' : '🌇 Sunset'} detected at ${event.timeString}`);
+  });
 
-  // Detect sunrise/sunset events
-  const events = detectSunEvents(sunAnalysis);
+  // Moon, planets and stars for the night-sky summary
+  const cabinLayout = getCabinLayout(profile.aircraft.type);
+  const moon = analyzeMoon(positionAt, startTime, endTime, originTimeZone, destinationTimeZone, cabinLayout);
+  const nightSky = analyzeNightSky(positionAt, startTime, endTime, originTimeZone, thresholds.civilTwilight, cabinLayout);
+  const aurora = kpIndex === undefined
+    ? undefined
+    : analyzeAurora(positionAt, startTime, endTime, originTimeZone, destinationTimeZone, kpIndex, thresholds.nauticalTwilight);
+  const eclipses = analyzeSolarEclipses(positionAt, startTime, endTime, originTimeZone, destinationTimeZone, cabinLayout);
+  const optics = analyzeOptics(sunAnalysis, positionAt, cabinLayout);
+  const cityLights = analyzeCityLights(sunAnalysis, positionAt, thresholds.civilTwilight, cabinLayout);
+  const coast = analyzeCoastlines(sunAnalysis, positionAt, startTime, endTime, originTimeZone, destinationTimeZone);
+
+  // Keeping out of the sun: the suggestion is the shaded side, worked out as for /api/route's sunExposure
+  let sunExposure: SunExposure | undefined;
+  if (objective === 'avoid-sun') {
+    const path = calculateFlightPath(fromAirport, toAirport, startTime, { aircraftType, durationHours: flightDuration }, profile);
+    sunExposure = getSunExposure(calculateSunPositions(path, startTime), path, originTimeZone);
+  }
 
   // Generate user-friendly report
-  const report = generateFlightSunReport(events, sunAnalysis, fromAirport, toAirport);
+  const report = generateFlightSunReport(
+    events, sunAnalysis, fromCoords, toCoords, thresholds, cabinLayout, moon, nightSky, aurora, eclipses, optics, cityLights, coast,
+    sunExposure
+  );
+
+  console.log(`Analysis complete: Sunrise=${events.willSeeSunrise}, Sunset=${events.willSeeSunset}, Night=${events.willSeeNight}`);
 
   return report;
 };
 
 /**
- * Generate sampling points along the flight path every 15 minutes
+ * Sun analysis along a recorded flight track (e.g. an imported GPX/KML/ADS-B file)
+ * instead of a synthetic great circle
  */
-const generateFlightSamplingPoints = (
+export const analyzeTrackSunConditions = (
+  waypoints: Waypoint[],
+  originTimeZone: string,
+  destinationTimeZone: string,
+  conditionThresholds: Partial<SunConditionThresholds> = {},
+  aircraftType?: string,    // for window and wing geometry; without it any window is assumed to see out
+  kpIndex?: number          // geomagnetic activity (0-9) for the aurora estimate
+): FlightSunAnalysis => {
+  const thresholds = resolveConditionThresholds(conditionThresholds);
+  if (waypoints.length < 2) {
+    throw new Error('Track must contain at least two points');
+  }
+
+  const first = waypoints[0];
+  const last = waypoints[waypoints.length - 1];
+
+  const startTime = new Date(first.time);
+  const endTime = new Date(last.time);
+  const positionAt = createTrackPosition(waypoints);
+  const sunAnalysis = analyzeSunConditions(
+    generateSamplingPoints(positionAt, startTime, endTime),
+    originTimeZone,
+    destinationTimeZone,
+    thresholds,
+    kpIndex
+  );
+  const events = detectSunEvents(positionAt, startTime, endTime, originTimeZone, destinationTimeZone, thresholds);
+  const cabinLayout = aircraftType ? getCabinLayout(aircraftType) : undefined;
+  const moon = analyzeMoon(positionAt, startTime, endTime, originTimeZone, destinationTimeZone, cabinLayout);
+  const nightSky = analyzeNightSky(positionAt, startTime, endTime, originTimeZone, thresholds.civilTwilight, cabinLayout);
+  const aurora = kpIndex === undefined
+    ? undefined
+    : analyzeAurora(positionAt, startTime, endTime, originTimeZone, destinationTimeZone, kpIndex, thresholds.nauticalTwilight);
+  const eclipses = analyzeSolarEclipses(positionAt, startTime, endTime, originTimeZone, destinationTimeZone, cabinLayout);
+  const optics = analyzeOptics(sunAnalysis, positionAt, cabinLayout);
+  const cityLights = analyzeCityLights(sunAnalysis, positionAt, thresholds.civilTwilight, cabinLayout);
+  const coast = analyzeCoastlines(sunAnalysis, positionAt, startTime, endTime, originTimeZone, destinationTimeZone);
+
+  return generateFlightSunReport(
+    events, sunAnalysis, [first.lat, first.lon], [last.lat, last.lon], thresholds, cabinLayout,
+    moon, nightSky, aurora, eclipses, optics, cityLights, coast
+  );
+};
+
+/**
+ * Aircraft position along a recorded track at any instant,
+ * interpolating between the recorded positions
+ */
+export const createTrackPosition = (waypoints: Waypoint[]): PositionAtTime => {
+  const times = waypoints.map(waypoint => new Date(waypoint.time).getTime());
+  const startMs = times[0];
+  const totalMs = times[times.length - 1] - startMs;
+
+  return (time: Date) => {
+    const t = time.getTime();
+
+    // Binary search for the track segment containing this instant
+    let lo = 0;
+    let hi = waypoints.length - 1;
+    while (hi - lo > 1) {
+      const mid = Math.floor((lo + hi) / 2);
+      if (times[mid] <= t) lo = mid;
+      else hi = mid;
+    }
+
+    const a = waypoints[lo];
+    const b = waypoints[hi];
+    const fraction = times[hi] > times[lo] ? Math.min(1, Math.max(0, (t - times[lo]) / (times[hi] - times[lo]))) : 0;
+    const position = interpolateGreatCircle([a.lat, a.lon], [b.lat, b.lon], fraction);
+
+    return {
+      time,
+      lat: position[0],
+      lon: position[1],
+      progressPercent: totalMs > 0 ? Math.min(100, Math.max(0, ((t - startMs) / totalMs) * 100)) : 0,
+      altitude: a.altitude + (b.altitude - a.altitude) * fraction,
+      phase: fraction < 0.5 ? a.phase : b.phase
+    };
+  };
+};
+
+/**
+ * Aircraft position along the planned great circle at any instant.
+ * Position and altitude follow the aircraft profile rather than a constant speed.
+ */
+const createProfilePosition = (
   fromCoords: [number, number],
-  toCoords: [number, number], 
+  toCoords: [number, number],
   startTime: Date,
-  duration: number
-) => {
-  const samplingPoints = [];
+  duration: number,
+  profile: FlightProfile
+): PositionAtTime => {
   const totalMinutes = duration * 60;
-  const intervalMinutes = 15; // Sample every 15 minutes for precision
-  
-  for (let minutes = 0; minutes <= totalMinutes; minutes += intervalMinutes) {
-    const fraction = minutes / totalMinutes;
-    const currentTime = new Date(startTime.getTime() + (minutes * 60 * 1000));
-    
+
+  return (time: Date) => {
+    const minutes = (time.getTime() - startTime.getTime()) / 60000;
+    const state = stateAtMinute(profile, minutes);
+    const distanceFraction = profile.distanceKm > 0 ? state.distanceKm / profile.distanceKm : 0;
+
     // Calculate position along great circle path
-    const position = interpolateGreatCircle(fromCoords, toCoords, fraction);
-    
-    samplingPoints.push({
-      time: currentTime,
+    const position = interpolateGreatCircle(fromCoords, toCoords, distanceFraction);
+
+    return {
+      time,
       lat: position[0],
       lon: position[1],
-      progressPercent: fraction * 100
-    });
+      progressPercent: totalMinutes > 0 ? Math.min(100, Math.max(0, minutes / totalMinutes * 100)) : 0,
+      altitude: state.altitude,
+      phase: state.phase
+    };
+  };
+};
+
+/**
+ * Generate sampling points every 15 minutes for the timeline
+ */
+const generateSamplingPoints = (positionAt: PositionAtTime, startTime: Date, endTime: Date): AircraftPosition[] => {
+  const samplingPoints: AircraftPosition[] = [];
+  const intervalMs = 15 * 60 * 1000;
+
+  for (let t = startTime.getTime(); t <= endTime.getTime(); t += intervalMs) {
+    samplingPoints.push(positionAt(new Date(t)));
   }
-  
-  console.log(`Generated ${samplingPoints.length} sampling points`);
+
   return samplingPoints;
 };
 
@@ -138,6 +424,7 @@ const interpolateGreatCircle = (
     Math.pow(Math.sin((lat1 - lat2) / 2), 2) +
     Math.cos(lat1) * Math.cos(lat2) * Math.pow(Math.sin((lon1 - lon2) / 2), 2)
   ));
+  if (d === 0) return from; // standing still, e.g. taxiing
 
   const a = Math.sin((1 - fraction) * d) / Math.sin(d);
   const b = Math.sin(fraction * d) / Math.sin(d);
@@ -153,124 +440,227 @@ const interpolateGreatCircle = (
 };
 
 /**
- * Analyze sun conditions for each sampling point
+ * Analyze sun conditions for each sampling point.
+ * Clock times are reported in the origin airport's timezone, as printed on the boarding pass.
  */
-const analyzeSunConditions = (samplingPoints: any[]): SunCondition[] => {
+const analyzeSunConditions = (
+  samplingPoints: AircraftPosition[],
+  originTimeZone: string,
+  destinationTimeZone: string,
+  thresholds: SunConditionThresholds,
+  kpIndex?: number
+): SunCondition[] => {
   return samplingPoints.map(point => {
-    // Use SunCalc for precise astronomical calculations
-    const sunPos = SunCalc.getPosition(point.time, point.lat, point.lon);
-    const elevation = sunPos.altitude * (180 / Math.PI);
-    const azimuth = sunPos.azimuth * (180 / Math.PI);
-    
+    const sample = sampleSun(point);
+    const geomagneticLatitude = getGeomagneticLatitude(sample.lat, sample.lon);
+    const dark = sample.elevationAboveHorizon < thresholds.nauticalTwilight;
+
     return {
-      time: point.time,
-      timeString: point.time.toLocaleTimeString([], { 
-        hour: '2-digit', 
-        minute: '2-digit',
-        timeZoneName: 'short'
-      }),
-      lat: point.lat,
-      lon: point.lon,
-      sunElevation: elevation,
-      sunAzimuth: azimuth,
-      condition: classifySunCondition(elevation),
-      progressPercent: point.progressPercent
+      time: sample.time,
+      timeString: formatClockTime(sample.time, originTimeZone),
+      lat: sample.lat,
+      lon: sample.lon,
+      sunElevation: sample.sunElevation,
+      apparentElevation: sample.apparentElevation,
+      horizonDip: sample.horizonDip,
+      elevationAboveHorizon: sample.elevationAboveHorizon,
+      sunAzimuth: sample.sunAzimuth,
+      condition: classifySunCondition(sample.elevationAboveHorizon, thresholds),
+      twilight: getTwilightBand(sample.elevationAboveHorizon, thresholds),
+      progressPercent: sample.progressPercent,
+      times: toLocalTimes(sample.time, originTimeZone, destinationTimeZone),
+      altitude: sample.altitude,
+      phase: sample.phase,
+      geomagneticLatitude: Math.round(geomagneticLatitude * 10) / 10,
+      aurora: kpIndex !== undefined && dark ? getAuroraLikelihood(geomagneticLatitude, kpIndex) : undefined
     };
   });
 };
 
 /**
- * Classify sun condition based on elevation angle
+ * Classify sun condition based on the sun's elevation above the visible horizon
  */
-const classifySunCondition = (elevation: number): 'NIGHT' | 'TWILIGHT' | 'GOLDEN_HOUR' | 'DAYLIGHT' => {
-  if (elevation < 0) return 'NIGHT';            // Night (sun below horizon)
-  if (elevation < 6) return 'TWILIGHT';         // Civil twilight  
-  if (elevation < 10) return 'GOLDEN_HOUR';     // Sunrise/Sunset golden hour
-  return 'DAYLIGHT';                            // Full daylight
+const classifySunCondition = (elevation: number, thresholds: SunConditionThresholds): SunConditionType => {
+  if (elevation >= thresholds.daylight) return 'DAYLIGHT';                         // Full daylight
+  if (elevation >= thresholds.goldenHour) return 'GOLDEN_HOUR';                    // Warm, low sun around sunrise/sunset
+  if (elevation >= thresholds.blueHour) return 'BLUE_HOUR';                        // Deep blue sky just before/after golden hour
+  if (elevation >= thresholds.civilTwilight) return 'CIVIL_TWILIGHT';              // Only if blue hour is configured narrower
+  if (elevation >= thresholds.nauticalTwilight) return 'NAUTICAL_TWILIGHT';        // Horizon still visible
+  if (elevation >= thresholds.astronomicalTwilight) return 'ASTRONOMICAL_TWILIGHT'; // Faint glow, most stars out
+  return 'NIGHT';                                                                   // Full darkness
 };
 
 /**
- * Detect sunrise/sunset events during the flight
+ * Twilight band the sun is in, regardless of blue/golden hour
  */
-const detectSunEvents = (sunAnalysis: SunCondition[]) => {
+const getTwilightBand = (elevation: number, thresholds: SunConditionThresholds): TwilightBand | undefined => {
+  if (elevation >= 0) return undefined;
+  if (elevation >= thresholds.civilTwilight) return 'CIVIL';
+  if (elevation >= thresholds.nauticalTwilight) return 'NAUTICAL';
+  if (elevation >= thresholds.astronomicalTwilight) return 'ASTRONOMICAL';
+  return undefined;
+};
+
+const toSunEvent = (
+  point: SunEventPoint,
+  originTimeZone: string,
+  destinationTimeZone: string,
+  heading?: number
+): SunEvent => ({
+  type: point.type,
+  time: point.time,
+  timeString: formatClockTime(point.time, originTimeZone),
+  location: `${point.lat.toFixed(2)}°, ${point.lon.toFixed(2)}°`,
+  lat: point.lat,
+  lon: point.lon,
+  progressPercent: point.progressPercent,
+  times: toLocalTimes(point.time, originTimeZone, destinationTimeZone),
+  altitude: point.altitude,
+  sunElevation: point.sunElevation,
+  apparentElevation: point.apparentElevation,
+  elevationAboveHorizon: point.elevationAboveHorizon,
+  sunAzimuth: point.sunAzimuth,
+  relativeBearing: heading === undefined
+    ? undefined
+    : Math.round(normalizeRelativeBearing(toCompassAzimuth(point.sunAzimuth) - heading))
+});
+
+// Moments worth a window seat, for which rows with a clear view are listed
+const SCENIC_EVENT_TYPES: SunEventType[] = ['sunrise', 'sunset', 'golden-hour-start', 'golden-hour-end'];
+
+/**
+ * Detect sunrise/sunset and the other sun events during the flight.
+ * Crossings are bracketed along the path and refined to the second, and condition
+ * durations are measured between those exact crossings rather than counted in samples.
+ */
+const detectSunEvents = (
+  positionAt: PositionAtTime,
+  startTime: Date,
+  endTime: Date,
+  originTimeZone: string,
+  destinationTimeZone: string,
+  thresholds: SunConditionThresholds
+) => {
+  const all = findSunEvents(positionAt, startTime, endTime, getSunEventThresholds(thresholds))
+    .map(point => toSunEvent(point, originTimeZone, destinationTimeZone, headingAt(positionAt, point.time)));
+
+  // Midnight sun / polar night stretches; entering or leaving one mid-flight is an event too
+  const polarSegments: PolarPeriod[] = findPolarSegments(positionAt, startTime, endTime).map(segment => ({
+    type: segment.type,
+    start: toSunEvent(
+      { ...segment.start, type: `${segment.type}-start` }, originTimeZone, destinationTimeZone,
+      headingAt(positionAt, segment.start.time)
+    ),
+    end: toSunEvent(
+      { ...segment.end, type: `${segment.type}-end` }, originTimeZone, destinationTimeZone,
+      headingAt(positionAt, segment.end.time)
+    ),
+    minutes: Math.round(segment.minutes)
+  }));
+  polarSegments.forEach(segment => {
+    if (segment.start.time > startTime) all.push(segment.start);
+    if (segment.end.time < endTime) all.push(segment.end);
+  });
+  all.sort((a, b) => a.time.getTime() - b.time.getTime());
+
+  const ofType = (type: SunEventType) => all.filter(event => event.type === type);
+
   const events = {
-    sunrise: null as SunEvent | null,
-    sunset: null as SunEvent | null,
+    all,
+    sunrises: ofType('sunrise'),
+    sunsets: ofType('sunset'),
+    groundSunrises: ofType('ground-sunrise'),
+    groundSunsets: ofType('ground-sunset'),
+    polarSegments,
     willSeeNight: false,
     willSeeSunrise: false,
     willSeeSunset: false,
     willSeeGoldenHour: false,
     nightMinutes: 0,
     dayMinutes: 0,
-    goldenHourMinutes: 0
+    goldenHourMinutes: 0,
+    blueHourMinutes: 0,
+    conditionMinutes: {
+      NIGHT: 0,
+      ASTRONOMICAL_TWILIGHT: 0,
+      NAUTICAL_TWILIGHT: 0,
+      CIVIL_TWILIGHT: 0,
+      BLUE_HOUR: 0,
+      GOLDEN_HOUR: 0,
+      DAYLIGHT: 0
+    } as Record<SunConditionType, number>,
+    twilightMinutes: { CIVIL: 0, NAUTICAL: 0, ASTRONOMICAL: 0 } as Record<TwilightBand, number>
   };
-  
-  // Track duration of different conditions
-  const intervalMinutes = 15;
-  
-  for (let i = 0; i < sunAnalysis.length; i++) {
-    const current = sunAnalysis[i];
-    
-    // Count duration of each condition
-    if (current.condition === 'NIGHT') {
-      events.willSeeNight = true;
-      events.nightMinutes += intervalMinutes;
-    } else if (current.condition === 'DAYLIGHT') {
-      events.dayMinutes += intervalMinutes;
-    } else if (current.condition === 'GOLDEN_HOUR') {
-      events.willSeeGoldenHour = true;
-      events.goldenHourMinutes += intervalMinutes;
-    } else if (current.condition === 'TWILIGHT') {
-      // Twilight periods also count as night for viewing purposes
-      events.willSeeNight = true;
-      events.nightMinutes += intervalMinutes;
-    }
-    
-    // Detect transitions (events)
-    if (i > 0) {
-      const prev = sunAnalysis[i-1];
-      
-      // SUNRISE DETECTION: Sun crosses from below to above horizon
-      if (prev.sunElevation <= 0 && current.sunElevation > 0) {
-        events.sunrise = {
-          time: current.time,
-          timeString: current.timeString,
-          location: `${current.lat.toFixed(2)}°, ${current.lon.toFixed(2)}°`,
-          lat: current.lat,
-          lon: current.lon,
-          progressPercent: current.progressPercent
-        };
-        events.willSeeSunrise = true;
-        console.log(`🌅 Sunrise detected at ${current.timeString}`);
-      }
-      
-      // SUNSET DETECTION: Sun crosses from above to below horizon  
-      if (prev.sunElevation > 0 && current.sunElevation <= 0) {
-        events.sunset = {
-          time: current.time,
-          timeString: current.timeString,
-          location: `${current.lat.toFixed(2)}°, ${current.lon.toFixed(2)}°`,
-          lat: current.lat,
-          lon: current.lon,
-          progressPercent: current.progressPercent
-        };
-        events.willSeeSunset = true;
-        console.log(`🌇 Sunset detected at ${current.timeString}`);
-      }
+
+  events.willSeeSunrise = events.sunrises.length > 0;
+  events.willSeeSunset = events.sunsets.length > 0;
+
+  const intervals = splitByThresholds(
+    positionAt,
+    startTime,
+    endTime,
+    'elevationAboveHorizon',
+    [...new Set([...Object.values(thresholds), 0])]
+  );
+
+  intervals.forEach(interval => {
+    const elevation = interval.midpoint.elevationAboveHorizon;
+    const twilight = getTwilightBand(elevation, thresholds);
+    events.conditionMinutes[classifySunCondition(elevation, thresholds)] += interval.minutes;
+    if (twilight) {
+      events.twilightMinutes[twilight] += interval.minutes;
     }
-  }
-  
+  });
+
+  roundPreservingTotal(events.conditionMinutes);
+  roundPreservingTotal(events.twilightMinutes);
+
+  // Everything darker than golden hour counts as night for viewing purposes
+  const minutes = events.conditionMinutes;
+  events.nightMinutes = minutes.NIGHT + minutes.ASTRONOMICAL_TWILIGHT + minutes.NAUTICAL_TWILIGHT +
+    minutes.CIVIL_TWILIGHT + minutes.BLUE_HOUR;
+  events.dayMinutes = minutes.DAYLIGHT;
+  events.goldenHourMinutes = minutes.GOLDEN_HOUR;
+  events.blueHourMinutes = minutes.BLUE_HOUR;
+  events.willSeeNight = events.nightMinutes > 0;
+  events.willSeeGoldenHour = events.goldenHourMinutes > 0;
+
   return events;
 };
 
+/**
+ * Round minutes to whole numbers in place without changing their sum (rounded),
+ * so the parts still add up to the whole flight
+ */
+const roundPreservingTotal = <K extends string>(minutes: Record<K, number>) => {
+  let exact = 0;
+  let rounded = 0;
+  (Object.keys(minutes) as K[]).forEach(key => {
+    exact += minutes[key];
+    const value = Math.round(exact) - rounded;
+    rounded += value;
+    minutes[key] = value;
+  });
+};
+
 /**
  * Generate user-friendly flight sun report
  */
 const generateFlightSunReport = (
-  events: any, 
+  events: ReturnType<typeof detectSunEvents>,
   sunAnalysis: SunCondition[],
-  fromAirport: string,
-  toAirport: string
+  fromCoords: [number, number],
+  toCoords: [number, number],
+  thresholds: SunConditionThresholds,
+  cabinLayout?: CabinLayout, // seat letters and rows for the recommendations, when the aircraft is known
+  moon?: MoonAnalysis,
+  nightSky?: NightSkyAnalysis,
+  aurora?: AuroraAnalysis,
+  eclipses?: EclipseAnalysis,
+  optics?: OpticsAnalysis,
+  cityLights?: CityLightsAnalysis,
+  coast?: CoastAnalysis,
+  sunExposure?: SunExposure // set when the traveller wants to avoid the sun
 ): FlightSunAnalysis => {
   
   const report: FlightSunAnalysis = {
@@ -278,69 +668,215 @@ const generateFlightSunReport = (
     willSeeSunset: events.willSeeSunset,
     willSeeNight: events.willSeeNight,
     willSeeGoldenHour: events.willSeeGoldenHour,
-    sunrise: events.sunrise,
-    sunset: events.sunset,
+    sunrise: events.sunrises[0],
+    sunset: events.sunsets[0],
+    sunrises: events.sunrises,
+    sunsets: events.sunsets,
+    groundSunrise: events.groundSunrises[0],
+    groundSunset: events.groundSunsets[0],
+    polarSegments: events.polarSegments,
+    events: events.all,
     summary: [],
     recommendations: [], // Empty array - recommendations removed from UI
     seatSuggestion: 'either',
     timeline: sunAnalysis,
     nightDuration: events.nightMinutes,
-    dayDuration: events.dayMinutes
+    dayDuration: events.dayMinutes,
+    goldenHourDuration: events.goldenHourMinutes,
+    blueHourDuration: events.blueHourMinutes,
+    conditionDurations: events.conditionMinutes,
+    twilightDurations: events.twilightMinutes,
+    thresholds,
+    moon,
+    nightSky,
+    aurora,
+    eclipses,
+    optics,
+    cityLights,
+    coast
   };
   
-  // Update the report with the corrected night detection
-  report.willSeeNight = events.willSeeNight;
-  report.nightDuration = events.nightMinutes;
-  
+  // Which windows see each scenic moment
+  events.all
+    .filter(event => SCENIC_EVENT_TYPES.includes(event.type) && event.relativeBearing !== undefined)
+    .forEach(event => {
+      const coverage = getSideCoverage(cabinLayout, event.relativeBearing!, event.apparentElevation);
+      event.view = { side: coverage.side, visible: coverage.state === 'clear', description: coverage.description };
+      if (cabinLayout) {
+        const rows = getRowViews(cabinLayout, coverage.side, event.relativeBearing!, event.apparentElevation);
+        event.view.clearRows = formatRowRanges(coverage.clearRows);
+        event.view.obstructedRows = formatRowRanges(rows
+          .filter(row => row.view !== 'clear')
+          .map(row => row.row)
+          .sort((a, b) => a - b));
+      }
+    });
+
+  // Sunrises and sunsets in the order they happen
+  const sunEvents = [...events.sunrises, ...events.sunsets].sort((a, b) => a.time.getTime() - b.time.getTime());
+  const describe = (event: SunEvent) =>
+    `${event.type === 'sunrise' ? '🌅 Sunrise' : '🌇 Sunset'} at ${event.timeString} (${Math.round(event.progressPercent)}% into the flight)`;
+  const plural = (count: number, noun: string) => `${count} ${noun}${count > 1 ? 's' : ''}`;
+  // Side the sun is actually on at the event; the route-direction heuristic covers events on the ground
+  const eventSide = (event: SunEvent): CabinSide | undefined =>
+    event.relativeBearing === undefined ? undefined : event.relativeBearing >= 0 ? 'right' : 'left';
+  const seatAdvice = (side: CabinSide, view: string) => {
+    const advice = `Choose a window seat on the ${side.toUpperCase()} side for the best ${view} views`;
+    return cabinLayout ? `${advice}: ${describeSideSeating(cabinLayout, side).summary}.` : `${advice}.`;
+  };
+
   // Build summary messages
   if (events.willSeeSunrise && events.willSeeSunset) {
-    report.summary.push(`🌟 Amazing! You'll see BOTH sunrise AND sunset during this flight!`);
-    report.summary.push(`🌅 Sunrise at ${events.sunrise.timeString}`);
-    report.summary.push(`🌇 Sunset at ${events.sunset.timeString}`);
+    if (sunEvents.length === 2) {
+      report.summary.push(`🌟 Amazing! You'll see BOTH sunrise AND sunset during this flight!`);
+    } else {
+      report.summary.push(`🌟 Amazing! You'll see ${plural(events.sunrises.length, 'sunrise')} and ${plural(events.sunsets.length, 'sunset')} during this flight!`);
+    }
+    sunEvents.forEach(event => report.summary.push(describe(event)));
     report.seatSuggestion = 'either';
     report.recommendations.push("This is a rare treat! You'll experience the full sun cycle during your journey.");
-    
-    // CRITICAL FIX: If both sunrise and sunset occur, there MUST be night periods
-    // Force willSeeNight to true and calculate night duration
-    if (!events.willSeeNight) {
-      events.willSeeNight = true;
-      // Estimate night duration as the time between sunset and sunrise
-      if (events.sunset && events.sunrise) {
-        const sunsetTime = new Date(events.sunset.time);
-        const sunriseTime = new Date(events.sunrise.time);
-        const nightDurationMs = sunriseTime.getTime() - sunsetTime.getTime();
-        events.nightMinutes = Math.max(0, nightDurationMs / (1000 * 60));
-      } else {
-        // Fallback: estimate night duration as 25% of flight time
-        // We need to get flightDuration from the function parameters
-        const estimatedFlightDuration = 6; // Default fallback
-        events.nightMinutes = Math.round(estimatedFlightDuration * 60 * 0.25);
+  } else if (events.willSeeSunrise) {
+    if (events.sunrises.length === 1) {
+      report.summary.push(`🌅 You WILL see a beautiful sunrise at ${events.sunrises[0].timeString}!`);
+    } else {
+      report.summary.push(`🌅 You WILL see ${plural(events.sunrises.length, 'sunrise')} during this flight!`);
+      events.sunrises.forEach(event => report.summary.push(describe(event)));
+    }
+    report.seatSuggestion = eventSide(events.sunrises[0]) || determineSeatSideForSunrise(fromCoords, toCoords);
+    report.recommendations.push(seatAdvice(report.seatSuggestion === 'right' ? 'right' : 'left', 'sunrise'));
+  } else if (events.willSeeSunset) {
+    if (events.sunsets.length === 1) {
+      report.summary.push(`🌇 You WILL see a stunning sunset at ${events.sunsets[0].timeString}!`);
+    } else {
+      report.summary.push(`🌇 You WILL see ${plural(events.sunsets.length, 'sunset')} during this flight!`);
+      events.sunsets.forEach(event => report.summary.push(describe(event)));
+    }
+    report.seatSuggestion = eventSide(events.sunsets[0]) || determineSeatSideForSunset(fromCoords, toCoords);
+    report.recommendations.push(seatAdvice(report.seatSuggestion === 'right' ? 'right' : 'left', 'sunset'));
+  }
+
+  // From cruise altitude the horizon dips, so the cabin sees sunrise earlier and sunset later
+  // (compared with the nearest matching event on the ground below)
+  const nearest = (event: SunEvent, candidates: SunEvent[]) => candidates
+    .filter(candidate => Math.abs(candidate.time.getTime() - event.time.getTime()) < 2 * 60 * 60 * 1000)
+    .sort((a, b) => Math.abs(a.time.getTime() - event.time.getTime()) - Math.abs(b.time.getTime() - event.time.getTime()))[0];
+
+  sunEvents.forEach(event => {
+    if (event.type === 'sunrise') {
+      const groundSunrise = nearest(event, events.groundSunrises);
+      const minutesEarlier = groundSunrise ? Math.round((groundSunrise.time.getTime() - event.time.getTime()) / 60000) : 0;
+      if (groundSunrise && minutesEarlier > 0) {
+        report.summary.push(`🛫 From the cabin the sun rises ${minutesEarlier} min before it does on the ground below (${groundSunrise.timeString})`);
+      }
+    } else {
+      const groundSunset = nearest(event, events.groundSunsets);
+      const minutesLater = groundSunset ? Math.round((event.time.getTime() - groundSunset.time.getTime()) / 60000) : 0;
+      if (groundSunset && minutesLater > 0) {
+        report.summary.push(`🛫 From the cabin the sun sets ${minutesLater} min after it does on the ground below (${groundSunset.timeString})`);
       }
     }
-    
-    if (events.willSeeNight) {
-      const nightHours = Math.round(events.nightMinutes / 60 * 10) / 10;
-      report.summary.push(`🌙 You'll also experience ${nightHours} hours of night flying - perfect for stargazing!`);
+  });
+
+  sunEvents.forEach(event => {
+    if (!event.view) return;
+    const { visible, description, obstructedRows } = event.view;
+    const what = `${event.type === 'sunrise' ? 'sunrise' : 'sunset'} at ${event.timeString}`;
+    if (!visible) {
+      report.recommendations.push(`The ${what} is ${description}.`);
+    } else if (obstructedRows) {
+      report.recommendations.push(`The ${what} is ${description} (rows ${obstructedRows} don't see it).`);
     }
-  } else if (events.willSeeSunrise) {
-    report.summary.push(`🌅 You WILL see a beautiful sunrise at ${events.sunrise.timeString}!`);
-    report.seatSuggestion = determineSeatSideForSunrise(fromAirport, toAirport);
-    report.recommendations.push(`Choose a window seat on the ${report.seatSuggestion === 'right' ? 'RIGHT (E, F)' : 'LEFT (A, B)'} side for the best sunrise views.`);
-  } else if (events.willSeeSunset) {
-    report.summary.push(`🌇 You WILL see a stunning sunset at ${events.sunset.timeString}!`);
-    report.seatSuggestion = determineSeatSideForSunset(fromAirport, toAirport);
-    report.recommendations.push(`Choose a window seat on the ${report.seatSuggestion === 'right' ? 'RIGHT (E, F)' : 'LEFT (A, B)'} side for the best sunset views.`);
+  });
+
+  // Midnight sun / polar night below the aircraft
+  events.polarSegments.forEach(segment => {
+    const from = segment.start.progressPercent <= 0 ? 'from departure' : `from ${segment.start.timeString}`;
+    const until = segment.end.progressPercent >= 100 ? 'until arrival' : `until ${segment.end.timeString}`;
+    const span = segment.start.progressPercent <= 0 && segment.end.progressPercent >= 100 ? 'for the whole flight' : `${from} ${until}`;
+    if (segment.type === 'midnight-sun') {
+      report.summary.push(`☀️ Midnight sun ${span} - the sun doesn't set on the ground below that day`);
+    } else {
+      report.summary.push(`🌑 Polar night ${span} - the sun doesn't rise on the ground below that day`);
+    }
+  });
+
+  // Coasts crossed and long stretches with only sea in view
+  if (coast) {
+    report.summary.push(...coast.summary);
+  }
+
+  // Solar eclipses along the way
+  if (eclipses) {
+    report.summary.push(...eclipses.summary);
+    eclipses.eclipses.forEach(eclipse => {
+      report.recommendations.push(`For the ${eclipse.date} eclipse, sit on the ${eclipse.maximum.side.toUpperCase()} side (greatest at ${eclipse.maximum.timeString}).`);
+    });
+  }
+
+  // Glories, rainbows and noctilucent clouds, where the geometry allows
+  if (optics) {
+    report.summary.push(...optics.summary);
   }
   
   if (events.willSeeNight) {
     const nightHours = Math.round(events.nightMinutes / 60 * 10) / 10;
     report.summary.push(`🌙 You'll experience ${nightHours} hours of night flying - perfect for stargazing!`);
-    report.recommendations.push("Great opportunity for night photography and seeing city lights from above.");
+    if (cityLights && (cityLights.side === 'left' || cityLights.side === 'right')) {
+      const names = cityLights.cities
+        .filter(city => city.side === cityLights.side)
+        .sort((a, b) => b.population - a.population)
+        .slice(0, 2)
+        .map(city => city.name);
+      report.recommendations.push(`For city lights, sit on the ${cityLights.side.toUpperCase()} side (${names.join(', ')}).`);
+      // Nothing to choose between for the sun, so pick the bigger cities
+      if (!events.willSeeSunrise && !events.willSeeSunset) {
+        report.seatSuggestion = cityLights.side;
+      }
+    } else {
+      report.recommendations.push("Great opportunity for night photography and seeing city lights from above.");
+    }
+    if (cityLights) {
+      report.summary.push(...cityLights.summary);
+    }
+    if (moon) {
+      report.summary.push(...moon.summary);
+      if (moon.side === 'left' || moon.side === 'right') {
+        report.recommendations.push(`For the moon, sit on the ${moon.side.toUpperCase()} side.`);
+      }
+    }
+    if (nightSky) {
+      report.summary.push(...nightSky.summary);
+    }
+    if (aurora) {
+      report.summary.push(...aurora.summary);
+      if (aurora.side !== 'none') {
+        report.recommendations.push(`For the aurora, sit on the ${aurora.side.toUpperCase()} side, facing the pole.`);
+      }
+    }
   }
   
+  const formatMinutes = (minutes: number) =>
+    minutes < 90 ? `${minutes} min` : `${Math.round(minutes / 60 * 10) / 10} hours`;
+
+  if (events.conditionMinutes.NIGHT > 0) {
+    report.summary.push(`🌌 ${formatMinutes(events.conditionMinutes.NIGHT)} of full darkness (sun more than ${Math.abs(thresholds.astronomicalTwilight)}° below the horizon)`);
+  }
+
+  const twilight = events.twilightMinutes;
+  if (twilight.CIVIL + twilight.NAUTICAL + twilight.ASTRONOMICAL > 0) {
+    const bands = ([['civil', twilight.CIVIL], ['nautical', twilight.NAUTICAL], ['astronomical', twilight.ASTRONOMICAL]] as [string, number][])
+      .filter(([, minutes]) => minutes > 0)
+      .map(([band, minutes]) => `${formatMinutes(minutes)} ${band}`);
+    report.summary.push(`🌆 Twilight: ${bands.join(', ')}`);
+  }
+
+  if (events.blueHourMinutes > 0) {
+    report.summary.push(`💙 ${formatMinutes(events.blueHourMinutes)} of blue hour (sun ${thresholds.blueHour}° to ${thresholds.goldenHour}° from the horizon)`);
+  }
+
   if (events.willSeeGoldenHour) {
     const goldenHours = Math.round(events.goldenHourMinutes / 60 * 10) / 10;
-    report.summary.push(`✨ You'll enjoy ${goldenHours} hours of golden hour lighting!`);
+    report.summary.push(`✨ You'll enjoy ${goldenHours} hours of golden hour lighting (sun ${thresholds.goldenHour}° to ${thresholds.daylight}° from the horizon)!`);
   }
   
   if (!events.willSeeSunrise && !events.willSeeSunset && !events.willSeeNight) {
@@ -354,18 +890,19 @@ const generateFlightSunReport = (
     report.recommendations.push("Consider booking an earlier check-in to secure your preferred window seat.");
   }
   
-  console.log(`Analysis complete: Sunrise=${events.willSeeSunrise}, Sunset=${events.willSeeSunset}, Night=${events.willSeeNight}`);
-  
+  // Avoiding the sun overrides any side picked for the views above
+  if (sunExposure) {
+    report.seatSuggestion = sunExposure.shadedSide;
+    report.recommendations.unshift(sunExposure.explanation);
+  }
+
   return report;
 };
 
 /**
  * Determine best seat side for sunrise viewing based on flight direction
  */
-const determineSeatSideForSunrise = (fromAirport: string, toAirport: string): 'left' | 'right' | 'either' => {
-  const fromCoords = AIRPORTS[fromAirport];
-  const toCoords = AIRPORTS[toAirport];
-  
+const determineSeatSideForSunrise = (fromCoords: [number, number], toCoords: [number, number]): 'left' | 'right' | 'either' => {
   // Calculate general flight bearing
   const dLon = toCoords[1] - fromCoords[1];
   const lat1 = fromCoords[0] * Math.PI / 180;
@@ -392,10 +929,7 @@ const determineSeatSideForSunrise = (fromAirport: string, toAirport: string): 'l
 /**
  * Determine best seat side for sunset viewing based on flight direction
  */
-const determineSeatSideForSunset = (fromAirport: string, toAirport: string): 'left' | 'right' | 'either' => {
-  const fromCoords = AIRPORTS[fromAirport];
-  const toCoords = AIRPORTS[toAirport];
-  
+const determineSeatSideForSunset = (fromCoords: [number, number], toCoords: [number, number]): 'left' | 'right' | 'either' => {
   // Calculate general flight bearing
   const dLon = toCoords[1] - fromCoords[1];
   const lat1 = fromCoords[0] * Math.PI / 180;
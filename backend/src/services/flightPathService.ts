@@ -1,37 +1,31 @@
-// Airport coordinates (latitude, longitude)
-export const AIRPORTS: Record<string, [number, number]> = {
-  // Indian Cities
-  'DEL': [28.5562, 77.1000], // Delhi
-  'JAI': [26.8282, 75.8056], // Jaipur
-  'BLR': [12.9716, 77.5946], // Bangalore (Kempegowda International Airport)
-  'BOM': [19.0896, 72.8656], // Mumbai (Chhatrapati Shivaji Maharaj International Airport)
-  'BHO': [23.2875, 77.3374], // Bhopal (Raja Bhoj Airport)
-  'LKO': [26.7606, 80.8893], // Lucknow (Chaudhary Charan Singh International Airport)
-  
-  // International Cities - Perfect for Sun Variations
-  'JFK': [40.6413, -73.7781], // New York (John F. Kennedy International Airport)
-  'LHR': [51.4700, -0.4543], // London (Heathrow Airport)
-  'NRT': [35.7720, 140.3929], // Tokyo (Narita International Airport)
-  'LAX': [33.9425, -118.4081], // Los Angeles (Los Angeles International Airport)
-  'DXB': [25.2532, 55.3657], // Dubai (Dubai International Airport)
-  'SIN': [1.3644, 103.9915], // Singapore (Singapore Changi Airport)
-  'SYD': [-33.9399, 151.1753], // Sydney (Kingsford Smith Airport)
-  'CDG': [49.0097, 2.5479], // Paris (Charles de Gaulle Airport)
-  'FRA': [50.0379, 8.5622], // Frankfurt (Frankfurt Airport)
-  'HKG': [22.3080, 113.9185], // Hong Kong (Hong Kong International Airport)
-  'ICN': [37.4602, 126.4407], // Seoul (Incheon International Airport)
-  'BKK': [13.6900, 100.7501], // Bangkok (Suvarnabhumi Airport)
-  'DOH': [25.2731, 51.6080], // Doha (Hamad International Airport)
-  'IST': [41.2753, 28.7519], // Istanbul (Istanbul Airport)
-  'MAD': [40.4839, -3.5680], // Madrid (Adolfo Suárez Madrid-Barajas Airport)
-};
+import { getAirport } from './airportService';
+import {
+  FlightPhase,
+  FlightProfile,
+  buildFlightProfile,
+  getAircraftProfile,
+  getBlockTimeRange,
+  selectDefaultAircraft,
+  stateAtDistance,
+  stateAtMinute
+} from './aircraftPerformanceService';
+import { formatDuration } from './seatRecommendationService';
 
 export interface Waypoint {
   lat: number;
   lon: number;
   time: string;
+  altitude: number; // metres above sea level
+  phase: FlightPhase;
+}
+
+export interface FlightPathOptions {
+  aircraftType?: string;   // A320, B737, B777, B787, A380 (default picked from distance)
+  durationHours?: number;  // scheduled gate-to-gate time; the profile is fitted to it
 }
 
+const FEET_TO_METRES = 0.3048;
+
 // Simple great circle calculation
 function calculateGreatCircle(from: [number, number], to: [number, number], fraction: number): [number, number] {
   const lat1 = from[0] * Math.PI / 180;
@@ -57,48 +51,108 @@ function calculateGreatCircle(from: [number, number], to: [number, number], frac
   return [lat * 180 / Math.PI, lon * 180 / Math.PI];
 }
 
+/**
+ * Great-circle distance between two coordinates in km
+ */
+export const calculateDistanceKm = (from: [number, number], to: [number, number]): number => {
+  const lat1 = from[0] * Math.PI / 180;
+  const lon1 = from[1] * Math.PI / 180;
+  const lat2 = to[0] * Math.PI / 180;
+  const lon2 = to[1] * Math.PI / 180;
+
+  const cosAngle = Math.sin(lat1) * Math.sin(lat2) +
+    Math.cos(lat1) * Math.cos(lat2) * Math.cos(lon2 - lon1);
+  return 6371 * Math.acos(Math.min(1, Math.max(-1, cosAngle)));
+};
+
+/**
+ * Taxi/climb/cruise/descent profile for a route between two airports, fitted to the
+ * scheduled duration when given. Throws if the aircraft can't plausibly fly it in that time.
+ */
+export const planFlight = (
+  fromAirport: string,
+  toAirport: string,
+  options: FlightPathOptions = {}
+): FlightProfile => {
+  const from = getAirport(fromAirport);
+  const to = getAirport(toAirport);
+  const distance = calculateDistanceKm([from.lat, from.lon], [to.lat, to.lon]);
+
+  let aircraft = selectDefaultAircraft(distance);
+  if (options.aircraftType) {
+    const requested = getAircraftProfile(options.aircraftType);
+    if (!requested) {
+      throw new Error(`Unknown aircraft type: ${options.aircraftType}`);
+    }
+    aircraft = requested;
+  }
+
+  const scheduledMinutes = options.durationHours !== undefined ? options.durationHours * 60 : undefined;
+  const profile = buildFlightProfile(
+    aircraft,
+    distance,
+    from.elevationFt * FEET_TO_METRES,
+    to.elevationFt * FEET_TO_METRES,
+    scheduledMinutes
+  );
+
+  // Reject a schedule the profile could only be stretched or squeezed to by ignoring it
+  if (scheduledMinutes !== undefined) {
+    const { minMinutes, maxMinutes } = getBlockTimeRange(profile);
+    if (scheduledMinutes < minMinutes) {
+      throw new Error(`Flight time of ${formatDuration(scheduledMinutes)} is too short for ${from.iata} → ${to.iata}: ` +
+        `the ${aircraft.type} needs at least ${formatDuration(minMinutes)} in the air`);
+    }
+    if (scheduledMinutes > maxMinutes) {
+      throw new Error(`Flight time of ${formatDuration(scheduledMinutes)} is too long for ${from.iata} → ${to.iata}: ` +
+        `the ${aircraft.type} takes at most ${formatDuration(maxMinutes)} gate to gate`);
+    }
+  }
+
+  return profile;
+};
+
 export const calculateFlightPath = (
   fromAirport: string, 
   toAirport: string, 
-  departureTime: Date
+  departureTime: Date,
+  options: FlightPathOptions = {},
+  profile: FlightProfile = planFlight(fromAirport, toAirport, options) // pass one already planned to avoid replanning
 ): Waypoint[] => {
-  const fromCoords = AIRPORTS[fromAirport.toUpperCase()];
-  const toCoords = AIRPORTS[toAirport.toUpperCase()];
+  const from = getAirport(fromAirport);
+  const to = getAirport(toAirport);
+  const fromCoords: [number, number] = [from.lat, from.lon];
+  const toCoords: [number, number] = [to.lat, to.lon];
 
-  if (!fromCoords || !toCoords) {
-    throw new Error(`Airport not found: ${fromAirport} or ${toAirport}`);
-  }
+  const distance = profile.distanceKm;
+  const toTime = (minutes: number) => new Date(departureTime.getTime() + minutes * 60 * 1000).toISOString();
 
-  // Calculate distance (simplified)
-  const lat1 = fromCoords[0] * Math.PI / 180;
-  const lon1 = fromCoords[1] * Math.PI / 180;
-  const lat2 = toCoords[0] * Math.PI / 180;
-  const lon2 = toCoords[1] * Math.PI / 180;
-  
-  const distance = 6371 * Math.acos(
-    Math.sin(lat1) * Math.sin(lat2) +
-    Math.cos(lat1) * Math.cos(lat2) * Math.cos(lon2 - lon1)
-  );
+  const waypoints: Waypoint[] = [];
+
+  // Gate departure: taxi-out starts at the origin
+  const gate = stateAtMinute(profile, 0);
+  waypoints.push({ lat: fromCoords[0], lon: fromCoords[1], time: toTime(0), altitude: gate.altitude, phase: gate.phase });
 
-  // Generate waypoints along the path (every 50km)
+  // Generate waypoints along the path (every 50km), timed by the aircraft profile
   const numWaypoints = Math.max(5, Math.floor(distance / 50));
   
-  const waypoints: Waypoint[] = [];
-  
   for (let i = 0; i <= numWaypoints; i++) {
     const fraction = i / numWaypoints;
-    const [lat, lon] = calculateGreatCircle(fromCoords, toCoords, fraction);
-    
-    // Calculate time at this waypoint (assuming constant speed)
-    const flightDuration = distance / 800; // Assuming 800 km/h average speed
-    const timeAtWaypoint = new Date(departureTime.getTime() + (fraction * flightDuration * 60 * 60 * 1000));
+    const [lat, lon] = distance > 0 ? calculateGreatCircle(fromCoords, toCoords, fraction) : fromCoords;
+    const state = stateAtDistance(profile, fraction * distance);
     
     waypoints.push({
       lat,
       lon,
-      time: timeAtWaypoint.toISOString()
+      time: toTime(state.minutes),
+      altitude: state.altitude,
+      phase: state.phase
     });
   }
 
+  // Gate arrival after taxi-in
+  const arrival = stateAtMinute(profile, profile.totalMinutes);
+  waypoints.push({ lat: toCoords[0], lon: toCoords[1], time: toTime(profile.totalMinutes), altitude: arrival.altitude, phase: arrival.phase });
+
   return waypoints;
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,278 @@
+import SunCalc from 'suncalc';
+import { calculateFlightPath, planFlight, Waypoint } from './flightPathService';
+import { FlightProfile } from './aircraftPerformanceService';
+import { calculateSunPositions, SunPosition } from './sunPositionService';
+import { SeatPlan, getSeatPlan, getSeatRecommendation } from './seatRecommendationService';
+import { analyzeFlightSunConditions, FlightSunAnalysis } from './enhancedSunAnalysisService';
+import { getAirport } from './airportService';
+import { LocalTimes, formatInTimeZone, toLocalTimes, withLocalTimes } from './timeZoneService';
+
+export interface ItineraryLegInput {
+  from: string;
+  to: string;
+  departureTime?: Date;    // explicit departure; otherwise previous arrival + layover
+  duration?: number;       // hours; otherwise estimated from the flight path
+  layoverMinutes?: number; // ground time after this leg, before the next one
+  aircraftType?: string;   // A320, B737, B777, B787, A380
+}
+
+export interface ItineraryLeg {
+  legIndex: number;
+  from: string;
+  to: string;
+  departure: LocalTimes & { timeZone: string };
+  arrival: LocalTimes & { timeZone: string };
+  duration: number; // hours
+  path: (Waypoint & { times: LocalTimes })[];
+  sunPositions: (SunPosition & { times: LocalTimes })[];
+  recommendation: string;
+  seatPlan: SeatPlan;
+  enhancedAnalysis: FlightSunAnalysis;
+}
+
+export interface ItineraryTimelineEntry {
+  time: string;                // UTC
+  localTime: string;           // local time where the traveller is (leg origin while airborne, airport on the ground)
+  type: 'departure' | 'arrival' | 'sunrise' | 'sunset' | 'coast-crossing';
+  phase: 'air' | 'ground';
+  legIndex: number;            // leg being flown, or the leg just landed for layover entries
+  airport?: string;            // set for ground entries and departures/arrivals
+  lat: number;
+  lon: number;
+  description: string;
+}
+
+export interface ItineraryAnalysis {
+  legs: ItineraryLeg[];
+  layovers: {
+    airport: string;
+    afterLegIndex: number;
+    start: string;
+    end: string;
+    minutes: number;
+  }[];
+  timeline: ItineraryTimelineEntry[];
+  summary: string[];
+}
+
+/**
+ * Analyse a multi-leg itinerary: per-leg path, sun and seat analysis,
+ * plus a combined timeline of sun events in the air and on the ground
+ */
+export const analyzeItinerary = (legInputs: ItineraryLegInput[]): ItineraryAnalysis => {
+  if (legInputs.length === 0) {
+    throw new Error('Itinerary must contain at least one leg');
+  }
+
+  const legs: ItineraryLeg[] = [];
+  const layovers: ItineraryAnalysis['layovers'] = [];
+  const timeline: ItineraryTimelineEntry[] = [];
+
+  let nextDeparture: Date | undefined;
+
+  legInputs.forEach((input, legIndex) => {
+    const fromAirport = getAirport(input.from);
+    const toAirport = getAirport(input.to);
+
+    if (legIndex > 0 && legInputs[legIndex - 1].to.toUpperCase() !== input.from.toUpperCase()) {
+      throw new Error(`Leg ${legIndex + 1} departs from ${input.from} but leg ${legIndex} arrives at ${legInputs[legIndex - 1].to}`);
+    }
+
+    const departureTime = input.departureTime || nextDeparture;
+    if (!departureTime) {
+      throw new Error('The first leg needs a departure time');
+    }
+
+    // Planned once for the path and the analysis; a duration the aircraft can't fly in is rejected
+    const flightOptions = { aircraftType: input.aircraftType, durationHours: input.duration };
+    let profile: FlightProfile;
+    try {
+      profile = planFlight(fromAirport.iata, toAirport.iata, flightOptions);
+    } catch (durationError) {
+      throw new Error(`Leg ${legIndex + 1}: ${durationError instanceof Error ? durationError.message : 'invalid duration'}`);
+    }
+
+    const flightPath = calculateFlightPath(fromAirport.iata, toAirport.iata, departureTime, flightOptions, profile);
+    const duration = profile.totalMinutes / 60;
+    const arrivalTime = new Date(departureTime.getTime() + duration * 60 * 60 * 1000);
+
+    const sunPositions = calculateSunPositions(flightPath, departureTime);
+    const recommendation = getSeatRecommendation(sunPositions, flightPath);
+    const enhancedAnalysis = analyzeFlightSunConditions(
+      fromAirport.iata,
+      toAirport.iata,
+      departureTime,
+      duration,
+      input.aircraftType,
+      {},
+      undefined,
+      profile
+    );
+
+    legs.push({
+      legIndex,
+      from: fromAirport.iata,
+      to: toAirport.iata,
+      departure: { ...toLocalTimes(departureTime, fromAirport.timezone, toAirport.timezone), timeZone: fromAirport.timezone },
+      arrival: { ...toLocalTimes(arrivalTime, fromAirport.timezone, toAirport.timezone), timeZone: toAirport.timezone },
+      duration,
+      path: withLocalTimes(flightPath, fromAirport.timezone, toAirport.timezone),
+      sunPositions: withLocalTimes(sunPositions, fromAirport.timezone, toAirport.timezone),
+      recommendation,
+      seatPlan: getSeatPlan(sunPositions, flightPath, fromAirport.timezone, input.aircraftType),
+      enhancedAnalysis
+    });
+
+    timeline.push({
+      time: departureTime.toISOString(),
+      localTime: formatInTimeZone(departureTime, fromAirport.timezone),
+      type: 'departure',
+      phase: 'ground',
+      legIndex,
+      airport: fromAirport.iata,
+      lat: fromAirport.lat,
+      lon: fromAirport.lon,
+      description: `Depart ${fromAirport.city} (${fromAirport.iata})`
+    });
+
+    [...enhancedAnalysis.sunrises, ...enhancedAnalysis.sunsets].forEach(event => {
+      const type = event.type === 'sunrise' ? 'sunrise' : 'sunset';
+      timeline.push({
+        time: event.times.utc,
+        localTime: event.times.originLocal,
+        type,
+        phase: 'air',
+        legIndex,
+        lat: event.lat,
+        lon: event.lon,
+        description: `${type === 'sunrise' ? 'Sunrise' : 'Sunset'} in the air over ${event.location} (${fromAirport.iata}→${toAirport.iata}, ${Math.round(event.progressPercent)}% of the leg)`
+      });
+    });
+
+    enhancedAnalysis.coast?.crossings.forEach(crossing => {
+      timeline.push({
+        time: crossing.time.utc,
+        localTime: crossing.time.originLocal,
+        type: 'coast-crossing',
+        phase: 'air',
+        legIndex,
+        lat: crossing.lat,
+        lon: crossing.lon,
+        description: `${crossing.description} (${fromAirport.iata}→${toAirport.iata}, ${crossing.progressPercent}% of the leg)`
+      });
+    });
+
+    timeline.push({
+      time: arrivalTime.toISOString(),
+      localTime: formatInTimeZone(arrivalTime, toAirport.timezone),
+      type: 'arrival',
+      phase: 'ground',
+      legIndex,
+      airport: toAirport.iata,
+      lat: toAirport.lat,
+      lon: toAirport.lon,
+      description: `Arrive ${toAirport.city} (${toAirport.iata})`
+    });
+
+    // Ground time before the next leg
+    nextDeparture = undefined;
+    if (legIndex < legInputs.length - 1) {
+      const following = legInputs[legIndex + 1];
+      const layoverEnd = following.departureTime ||
+        new Date(arrivalTime.getTime() + (input.layoverMinutes || 0) * 60 * 1000);
+
+      if (layoverEnd.getTime() < arrivalTime.getTime()) {
+        throw new Error(`Leg ${legIndex + 2} departs before leg ${legIndex + 1} arrives`);
+      }
+
+      layovers.push({
+        airport: toAirport.iata,
+        afterLegIndex: legIndex,
+        start: arrivalTime.toISOString(),
+        end: layoverEnd.toISOString(),
+        minutes: Math.round((layoverEnd.getTime() - arrivalTime.getTime()) / 60000)
+      });
+
+      findGroundSunEvents(toAirport.iata, arrivalTime, layoverEnd).forEach(event => {
+        timeline.push({
+          time: event.time.toISOString(),
+          localTime: formatInTimeZone(event.time, toAirport.timezone),
+          type: event.type,
+          phase: 'ground',
+          legIndex,
+          airport: toAirport.iata,
+          lat: toAirport.lat,
+          lon: toAirport.lon,
+          description: `${event.type === 'sunrise' ? 'Sunrise' : 'Sunset'} on the ground during the layover in ${toAirport.city} (${toAirport.iata})`
+        });
+      });
+
+      nextDeparture = layoverEnd;
+    }
+  });
+
+  timeline.sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime());
+
+  return {
+    legs,
+    layovers,
+    timeline,
+    summary: buildItinerarySummary(legs, timeline)
+  };
+};
+
+/**
+ * Sunrises and sunsets at an airport between two instants
+ */
+const findGroundSunEvents = (airportCode: string, start: Date, end: Date) => {
+  const airport = getAirport(airportCode);
+  const events: { type: 'sunrise' | 'sunset'; time: Date }[] = [];
+
+  // Check each calendar day touched by the layover (plus one either side for timezone edges)
+  const dayMs = 24 * 60 * 60 * 1000;
+  for (let day = start.getTime() - dayMs; day <= end.getTime() + dayMs; day += dayMs) {
+    const times = SunCalc.getTimes(new Date(day), airport.lat, airport.lon);
+    [['sunrise', times.sunrise], ['sunset', times.sunset]].forEach(([type, time]) => {
+      const eventTime = time as Date;
+      if (isNaN(eventTime.getTime())) return; // polar day/night: no event
+      if (eventTime >= start && eventTime <= end &&
+          !events.some(e => Math.abs(e.time.getTime() - eventTime.getTime()) < 60 * 1000)) {
+        events.push({ type: type as 'sunrise' | 'sunset', time: eventTime });
+      }
+    });
+  }
+
+  return events;
+};
+
+/**
+ * Build a short summary of the whole itinerary
+ */
+const buildItinerarySummary = (legs: ItineraryLeg[], timeline: ItineraryTimelineEntry[]): string[] => {
+  const summary: string[] = [];
+  const route = [legs[0].from, ...legs.map(leg => leg.to)].join(' → ');
+  summary.push(`🗺️ ${legs.length}-leg itinerary: ${route}`);
+
+  legs.forEach(leg => {
+    const advice = leg.recommendation === 'left' || leg.recommendation === 'right'
+      ? `sit on the ${leg.recommendation.toUpperCase()} side`
+      : leg.recommendation;
+    summary.push(`✈️ Leg ${leg.legIndex + 1} (${leg.from} → ${leg.to}): ${advice}`);
+  });
+
+  const sunEvents = timeline.filter(entry => entry.type === 'sunrise' || entry.type === 'sunset');
+  const inAir = sunEvents.filter(entry => entry.phase === 'air');
+  const onGround = sunEvents.filter(entry => entry.phase === 'ground');
+
+  if (inAir.length > 0) {
+    summary.push(`🌅 ${inAir.length} sun event${inAir.length > 1 ? 's' : ''} in the air`);
+  }
+  if (onGround.length > 0) {
+    summary.push(`🛬 ${onGround.length} sun event${onGround.length > 1 ? 's' : ''} during layovers on the ground`);
+  }
+  if (sunEvents.length === 0) {
+    summary.push('☀️ No sunrise or sunset during this trip');
+  }
+
+  return summary;
+};
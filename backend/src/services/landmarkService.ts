@@ -0,0 +1,197 @@
+import { calculateDistanceKm } from './flightPathService';
+import { EARTH_RADIUS_M, TERRESTRIAL_REFRACTION_K, getHorizonDip } from './sunPositionService';
+import { PositionAtTime, headingAt } from './sunEventService';
+import { CabinLayout, getSideCoverage } from './aircraftCabinService';
+import { SunSide, calculateBearing, normalizeRelativeBearing } from './seatRecommendationService';
+import { LocalTimes, formatClockTime, toLocalTimes } from './timeZoneService';
+
+export interface Landmark {
+  lat: number;
+  lon: number;
+  name: string;
+  elevation: number; // metres
+  region: string;
+}
+
+export interface LandmarkSighting {
+  id: string;
+  name: string;
+  region: string;
+  elevation: number;
+  lat: number;
+  lon: number;
+  closestApproach: {
+    time: LocalTimes;
+    timeString: string;       // clock time at the origin
+    progressPercent: number;
+    distanceKm: number;       // ground distance from the point below the aircraft
+    altitude: number;         // aircraft altitude, metres
+  };
+  relativeBearing: number;    // off the nose, + right / − left
+  side: SunSide;
+  elevationAngle: number;     // summit above (−: below) the aircraft's horizontal, with curvature
+  elevationAboveHorizon: number; // summit above the visible horizon
+  lineOfSight: boolean;       // not hidden behind the curve of the earth
+  visible: boolean;           // in line of sight and in a window's view
+  description: string;        // which windows see it
+}
+
+// Mountains for the mountain-view feature (the frontend map markers show the ones in view)
+export const LANDMARKS: Record<string, Landmark> = {
+  // Himalayas - Northern India
+  EVEREST: { lat: 27.9881, lon: 86.9250, name: 'Mount Everest', elevation: 8849, region: 'Himalayas' },
+  K2: { lat: 35.8808, lon: 76.5155, name: 'K2', elevation: 8611, region: 'Karakoram' },
+  KANCHENJUNGA: { lat: 27.7025, lon: 88.1475, name: 'Kanchenjunga', elevation: 8586, region: 'Himalayas' },
+  NANDA_DEVI: { lat: 30.3763, lon: 79.9737, name: 'Nanda Devi', elevation: 7816, region: 'Himalayas' },
+  DHAULAGIRI: { lat: 28.6967, lon: 83.4933, name: 'Dhaulagiri', elevation: 8167, region: 'Himalayas' },
+  ANNAPURNA: { lat: 28.5967, lon: 83.8203, name: 'Annapurna', elevation: 8091, region: 'Himalayas' },
+
+  // Western Ghats - South & West India
+  ANAMUDI: { lat: 10.1783, lon: 77.0650, name: 'Anamudi', elevation: 2695, region: 'Western Ghats' },
+  DODDABETTA: { lat: 11.4064, lon: 76.7392, name: 'Doddabetta', elevation: 2637, region: 'Nilgiris' },
+  MULLAYANAGIRI: { lat: 13.3931, lon: 75.7185, name: 'Mullayanagiri', elevation: 1930, region: 'Western Ghats' },
+  KALSUBAI: { lat: 19.6092, lon: 73.7031, name: 'Kalsubai', elevation: 1646, region: 'Sahyadris' },
+  HARISHCHANDRAGAD: { lat: 19.5217, lon: 73.7636, name: 'Harishchandragad', elevation: 1424, region: 'Sahyadris' },
+
+  // Eastern Ghats & Central India
+  MAHENDRAGIRI: { lat: 18.8503, lon: 84.2883, name: 'Mahendragiri', elevation: 1501, region: 'Eastern Ghats' },
+  ARMA_KONDA: { lat: 18.3500, lon: 82.9167, name: 'Arma Konda', elevation: 1680, region: 'Eastern Ghats' },
+  GURU_SHIKHAR: { lat: 24.5925, lon: 72.7894, name: 'Guru Shikhar', elevation: 1722, region: 'Aravalli' },
+
+  // Northeast India
+  SARAMATI: { lat: 26.0000, lon: 94.7667, name: 'Saramati', elevation: 3826, region: 'Nagaland Hills' },
+  BLUE_MOUNTAIN: { lat: 23.2833, lon: 92.8167, name: 'Blue Mountain', elevation: 2157, region: 'Mizoram Hills' },
+
+  // International mountains
+  MONT_BLANC: { lat: 45.8326, lon: 6.8652, name: 'Mont Blanc', elevation: 4809, region: 'Alps' },
+  MATTERHORN: { lat: 45.9763, lon: 7.6586, name: 'Matterhorn', elevation: 4478, region: 'Alps' },
+  FUJI: { lat: 35.3606, lon: 138.7274, name: 'Mount Fuji', elevation: 3776, region: 'Japan' },
+  DENALI: { lat: 63.0692, lon: -151.0070, name: 'Denali', elevation: 6190, region: 'Alaska' },
+  ROCKY_MOUNTAINS: { lat: 39.7392, lon: -104.9903, name: 'Rocky Mountains', elevation: 4401, region: 'USA' }
+};
+
+// Landmarks whose closest approach is further than this are left out
+const MAX_RANGE_KM = 400;
+
+const SEARCH_STEP_MS = 60 * 1000;
+const SEARCH_STEP_KM = 15; // about what an airliner covers in a scan step
+const TIME_TOLERANCE_MS = 1000;
+const GOLDEN_RATIO = (Math.sqrt(5) - 1) / 2;
+
+// Earth radius bent by terrestrial refraction, as for the horizon dip
+const EFFECTIVE_RADIUS_M = EARTH_RADIUS_M / (1 - TERRESTRIAL_REFRACTION_K);
+
+const rad = Math.PI / 180;
+
+/**
+ * Angle of a point at a given height and ground distance above (−: below) the
+ * observer's horizontal, and whether the earth's curve hides it
+ */
+export const getLineOfSight = (
+  observerAltitudeM: number,
+  targetElevationM: number,
+  distanceKm: number
+): { elevationAngle: number; lineOfSight: boolean } => {
+  const angle = distanceKm * 1000 / EFFECTIVE_RADIUS_M;
+  const observerRadius = EFFECTIVE_RADIUS_M + Math.max(0, observerAltitudeM);
+  const targetRadius = EFFECTIVE_RADIUS_M + Math.max(0, targetElevationM);
+
+  const elevationAngle = Math.atan2(targetRadius * Math.cos(angle) - observerRadius, targetRadius * Math.sin(angle)) / rad;
+  const horizonAngle = Math.acos(EFFECTIVE_RADIUS_M / observerRadius) + Math.acos(EFFECTIVE_RADIUS_M / targetRadius);
+
+  return { elevationAngle, lineOfSight: angle <= horizonAngle };
+};
+
+const distanceAt = (positionAt: PositionAtTime, ms: number, lat: number, lon: number): number => {
+  const position = positionAt(new Date(ms));
+  return calculateDistanceKm([position.lat, position.lon], [lat, lon]);
+};
+
+/**
+ * Moment the flight passes closest to a point: the nearest scan step, then a
+ * golden-section search either side of it. Undefined when it never comes within range.
+ */
+export const getClosestApproach = (
+  positionAt: PositionAtTime,
+  start: Date,
+  end: Date,
+  lat: number,
+  lon: number,
+  maxRangeKm: number
+): { time: Date; distanceKm: number } | undefined => {
+  let nearestMs = start.getTime();
+  let nearestKm = Infinity;
+  for (let ms = start.getTime(); ms <= end.getTime(); ms += SEARCH_STEP_MS) {
+    const distance = distanceAt(positionAt, ms, lat, lon);
+    if (distance < nearestKm) {
+      nearestKm = distance;
+      nearestMs = ms;
+    }
+  }
+  if (nearestKm > maxRangeKm + SEARCH_STEP_KM) return undefined;
+
+  let a = Math.max(start.getTime(), nearestMs - SEARCH_STEP_MS);
+  let b = Math.min(end.getTime(), nearestMs + SEARCH_STEP_MS);
+  while (b - a > TIME_TOLERANCE_MS) {
+    const c = b - GOLDEN_RATIO * (b - a);
+    const d = a + GOLDEN_RATIO * (b - a);
+    if (distanceAt(positionAt, c, lat, lon) < distanceAt(positionAt, d, lat, lon)) b = d; else a = c;
+  }
+
+  const time = new Date((a + b) / 2);
+  const distanceKm = distanceAt(positionAt, time.getTime(), lat, lon);
+  return distanceKm > maxRangeKm ? undefined : { time, distanceKm };
+};
+
+/**
+ * Closest approach to each landmark along the flight, with the side it is on, how high it
+ * stands from the aircraft, and whether the curve of the earth or the window frame hides it
+ */
+export const getLandmarkSightings = (
+  positionAt: PositionAtTime,
+  start: Date,
+  end: Date,
+  originTimeZone: string,
+  destinationTimeZone: string,
+  cabinLayout?: CabinLayout
+): LandmarkSighting[] => {
+  const sightings: LandmarkSighting[] = [];
+
+  Object.entries(LANDMARKS).forEach(([id, landmark]) => {
+    const approach = getClosestApproach(positionAt, start, end, landmark.lat, landmark.lon, MAX_RANGE_KM);
+    if (!approach) return;
+
+    const { time, distanceKm } = approach;
+    const position = positionAt(time);
+    const heading = headingAt(positionAt, time) ?? 0;
+    const relativeBearing = normalizeRelativeBearing(calculateBearing(position.lat, position.lon, landmark.lat, landmark.lon) - heading);
+    const { elevationAngle, lineOfSight } = getLineOfSight(position.altitude, landmark.elevation, distanceKm);
+    const coverage = getSideCoverage(cabinLayout, relativeBearing, elevationAngle);
+    const visible = lineOfSight && coverage.state === 'clear';
+
+    sightings.push({
+      id,
+      name: landmark.name,
+      region: landmark.region,
+      elevation: landmark.elevation,
+      lat: landmark.lat,
+      lon: landmark.lon,
+      closestApproach: {
+        time: toLocalTimes(time, originTimeZone, destinationTimeZone),
+        timeString: formatClockTime(time, originTimeZone),
+        progressPercent: Math.round(position.progressPercent),
+        distanceKm: Math.round(distanceKm),
+        altitude: Math.round(position.altitude)
+      },
+      relativeBearing: Math.round(relativeBearing),
+      side: coverage.side,
+      elevationAngle: Math.round(elevationAngle * 10) / 10,
+      elevationAboveHorizon: Math.round((elevationAngle + getHorizonDip(position.altitude)) * 10) / 10,
+      lineOfSight,
+      visible,
+      description: lineOfSight ? coverage.description : 'below the horizon'
+    });
+  });
+
+  return sightings.sort((a, b) => a.closestApproach.time.utc.localeCompare(b.closestApproach.time.utc));
+};
@@ -0,0 +1,238 @@
+import SunCalc from 'suncalc';
+import { Waypoint } from './flightPathService';
+import { getHorizonDip, getSunVisibility, toCompassAzimuth } from './sunPositionService';
+import { PositionAtTime, headingAt } from './sunEventService';
+import { CabinLayout, getSideCoverage } from './aircraftCabinService';
+import { SunSide, formatDuration, normalizeRelativeBearing } from './seatRecommendationService';
+import { LocalTimes, formatClockTime, toLocalTimes } from './timeZoneService';
+
+export type MoonPhaseName =
+  | 'New Moon'
+  | 'Waxing Crescent'
+  | 'First Quarter'
+  | 'Waxing Gibbous'
+  | 'Full Moon'
+  | 'Waning Gibbous'
+  | 'Last Quarter'
+  | 'Waning Crescent';
+
+export interface MoonPosition {
+  lat: number;
+  lon: number;
+  time: string;
+  azimuth: number;               // SunCalc convention like SunPosition: from south, towards west
+  elevation: number;             // apparent elevation (SunCalc includes sea-level refraction for the moon)
+  horizonDip: number;
+  elevationAboveHorizon: number;
+  illumination: number;          // lit fraction of the disc, 0-1
+  phase: number;                 // 0 new, 0.25 first quarter, 0.5 full, 0.75 last quarter
+  phaseName: MoonPhaseName;
+}
+
+export interface MoonEvent {
+  type: 'moonrise' | 'moonset';
+  time: Date;
+  timeString: string;
+  times: LocalTimes;
+  lat: number;
+  lon: number;
+  progressPercent: number;
+  relativeBearing?: number; // moon off the nose, + right / − left
+}
+
+export interface MoonAnalysis {
+  illumination: number;     // at mid-flight
+  phase: number;
+  phaseName: MoonPhaseName;
+  events: MoonEvent[];      // moonrise/moonset seen from the cabin, in order
+  visibleMinutes: Record<SunSide, number>; // moon up, in a window's view, and the sun down
+  side: SunSide | 'either' | 'none';       // side to sit on to see the moon
+  summary: string[];
+}
+
+// Moonrise/moonset is when the upper limb touches the horizon
+const MOON_SEMI_DIAMETER = 0.26;
+
+const SEARCH_STEP_MS = 5 * 60 * 1000;
+const TIME_TOLERANCE_MS = 1000;
+
+// Difference (in % of the moon's visible time) below which neither side is clearly better
+const EITHER_SIDE_MARGIN = 10;
+
+const PHASE_EMOJI: Record<MoonPhaseName, string> = {
+  'New Moon': '🌑',
+  'Waxing Crescent': '🌒',
+  'First Quarter': '🌓',
+  'Waxing Gibbous': '🌔',
+  'Full Moon': '🌕',
+  'Waning Gibbous': '🌖',
+  'Last Quarter': '🌗',
+  'Waning Crescent': '🌘'
+};
+
+/**
+ * Name of a SunCalc moon phase (0-1); the four principal phases get a 1/16 window either side
+ */
+export const getMoonPhaseName = (phase: number): MoonPhaseName => {
+  const names: MoonPhaseName[] = [
+    'New Moon', 'Waxing Crescent', 'First Quarter', 'Waxing Gibbous',
+    'Full Moon', 'Waning Gibbous', 'Last Quarter', 'Waning Crescent'
+  ];
+  return names[Math.round(phase * 8) % 8];
+};
+
+/**
+ * Moon position and phase seen from an aircraft
+ */
+export const getMoonPosition = (time: Date, lat: number, lon: number, altitudeM: number = 0): Omit<MoonPosition, 'time'> => {
+  const position = SunCalc.getMoonPosition(time, lat, lon);
+  const illumination = SunCalc.getMoonIllumination(time);
+  const elevation = position.altitude * (180 / Math.PI);
+  const horizonDip = getHorizonDip(altitudeM);
+
+  return {
+    lat,
+    lon,
+    azimuth: position.azimuth * (180 / Math.PI),
+    elevation,
+    horizonDip,
+    elevationAboveHorizon: elevation + horizonDip,
+    illumination: illumination.fraction,
+    phase: illumination.phase,
+    phaseName: getMoonPhaseName(illumination.phase)
+  };
+};
+
+/**
+ * Moon position and phase at every waypoint
+ */
+export const calculateMoonPositions = (waypoints: Waypoint[]): MoonPosition[] => {
+  return waypoints.map(waypoint => ({
+    ...getMoonPosition(new Date(waypoint.time), waypoint.lat, waypoint.lon, waypoint.altitude),
+    time: waypoint.time
+  }));
+};
+
+const moonAboveHorizon = (positionAt: PositionAtTime, ms: number): boolean => {
+  const position = positionAt(new Date(ms));
+  return getMoonPosition(position.time, position.lat, position.lon, position.altitude).elevationAboveHorizon > -MOON_SEMI_DIAMETER;
+};
+
+/**
+ * Moonrise and moonset seen from the cabin, bracketed every few minutes and bisected to a second
+ */
+const findMoonEvents = (
+  positionAt: PositionAtTime,
+  start: Date,
+  end: Date,
+  originTimeZone: string,
+  destinationTimeZone: string
+): MoonEvent[] => {
+  const events: MoonEvent[] = [];
+  let previousMs = start.getTime();
+  let previousUp = moonAboveHorizon(positionAt, previousMs);
+
+  while (previousMs < end.getTime()) {
+    const currentMs = Math.min(previousMs + SEARCH_STEP_MS, end.getTime());
+    const currentUp = moonAboveHorizon(positionAt, currentMs);
+
+    if (currentUp !== previousUp) {
+      let lo = previousMs;
+      let hi = currentMs;
+      while (hi - lo > TIME_TOLERANCE_MS) {
+        const mid = (lo + hi) / 2;
+        if (moonAboveHorizon(positionAt, mid) === previousUp) lo = mid; else hi = mid;
+      }
+
+      const time = new Date((lo + hi) / 2);
+      const position = positionAt(time);
+      const moon = getMoonPosition(time, position.lat, position.lon, position.altitude);
+      const heading = headingAt(positionAt, time);
+      events.push({
+        type: currentUp ? 'moonrise' : 'moonset',
+        time,
+        timeString: formatClockTime(time, originTimeZone),
+        times: toLocalTimes(time, originTimeZone, destinationTimeZone),
+        lat: position.lat,
+        lon: position.lon,
+        progressPercent: position.progressPercent,
+        relativeBearing: heading === undefined
+          ? undefined
+          : Math.round(normalizeRelativeBearing(toCompassAzimuth(moon.azimuth) - heading))
+      });
+    }
+
+    previousMs = currentMs;
+    previousUp = currentUp;
+  }
+
+  return events;
+};
+
+/**
+ * Moon phase, moonrise/moonset and the side to sit on for the moon during the dark part of a flight
+ */
+export const analyzeMoon = (
+  positionAt: PositionAtTime,
+  start: Date,
+  end: Date,
+  originTimeZone: string,
+  destinationTimeZone: string,
+  cabinLayout?: CabinLayout
+): MoonAnalysis => {
+  const midpoint = positionAt(new Date((start.getTime() + end.getTime()) / 2));
+  const { illumination, phase, phaseName } = getMoonPosition(midpoint.time, midpoint.lat, midpoint.lon, midpoint.altitude);
+  const events = findMoonEvents(positionAt, start, end, originTimeZone, destinationTimeZone);
+
+  // Minutes with the moon in a window's view while the sun is down, judged at the middle of each step
+  const visibleMinutes = { left: 0, right: 0 };
+  for (let ms = start.getTime(); ms < end.getTime(); ms += SEARCH_STEP_MS) {
+    const stepEnd = Math.min(ms + SEARCH_STEP_MS, end.getTime());
+    const time = new Date((ms + stepEnd) / 2);
+    const position = positionAt(time);
+    const heading = headingAt(positionAt, time);
+    if (heading === undefined) continue;
+
+    const sunElevation = SunCalc.getPosition(time, position.lat, position.lon).altitude * (180 / Math.PI);
+    if (getSunVisibility(sunElevation, position.altitude).elevationAboveHorizon > 0) continue;
+
+    const moon = getMoonPosition(time, position.lat, position.lon, position.altitude);
+    if (moon.elevationAboveHorizon <= 0) continue;
+
+    const relativeBearing = normalizeRelativeBearing(toCompassAzimuth(moon.azimuth) - heading);
+    const coverage = getSideCoverage(cabinLayout, relativeBearing, moon.elevation);
+    if (coverage.state === 'clear') {
+      visibleMinutes[coverage.side] += (stepEnd - ms) / 60000;
+    }
+  }
+
+  const total = visibleMinutes.left + visibleMinutes.right;
+  const side: MoonAnalysis['side'] = total === 0
+    ? 'none'
+    : Math.abs(visibleMinutes.left - visibleMinutes.right) / total * 100 < EITHER_SIDE_MARGIN
+      ? 'either'
+      : visibleMinutes.left > visibleMinutes.right ? 'left' : 'right';
+
+  const summary: string[] = [`${PHASE_EMOJI[phaseName]} ${phaseName}, ${Math.round(illumination * 100)}% lit`];
+  events.forEach(event => {
+    const where = event.relativeBearing === undefined ? '' : ` on the ${event.relativeBearing >= 0 ? 'right' : 'left'}`;
+    summary.push(`${event.type === 'moonrise' ? '🌔 Moonrise' : '🌘 Moonset'} at ${event.timeString}${where} (${Math.round(event.progressPercent)}% into the flight)`);
+  });
+  if (side === 'none') {
+    summary.push('🔭 The moon is not in view from the windows while it is dark');
+  } else if (side === 'either') {
+    summary.push(`🔭 Moon in view on both sides in the dark: ${formatDuration(visibleMinutes.left)} left, ${formatDuration(visibleMinutes.right)} right`);
+  } else {
+    summary.push(`🔭 Moon in view from the ${side.toUpperCase()} side for ${formatDuration(visibleMinutes[side])} in the dark`);
+  }
+
+  return {
+    illumination: Math.round(illumination * 1000) / 1000,
+    phase: Math.round(phase * 1000) / 1000,
+    phaseName,
+    events,
+    visibleMinutes: { left: Math.round(visibleMinutes.left), right: Math.round(visibleMinutes.right) },
+    side,
+    summary
+  };
+};
@@ -0,0 +1,295 @@
+import SunCalc from 'suncalc';
+import starData from '../data/brightStars.json';
+import { getAtmosphericRefraction, getHorizonDip, getSunVisibility } from './sunPositionService';
+import { PositionAtTime, headingAt } from './sunEventService';
+import { CabinLayout, getSideCoverage } from './aircraftCabinService';
+import { SunSide, formatDuration, normalizeRelativeBearing } from './seatRecommendationService';
+import { getMoonPosition } from './moonPositionService';
+import { formatClockTime } from './timeZoneService';
+
+export interface BrightStar {
+  name: string;
+  constellation: string;
+  ra: number;  // hours, J2000
+  dec: number; // degrees, J2000
+  mag: number;
+}
+
+export type PlanetName = 'Mercury' | 'Venus' | 'Mars' | 'Jupiter' | 'Saturn';
+
+export interface SkyObject {
+  name: string;
+  type: 'planet' | 'star';
+  constellation?: string;   // stars only
+  magnitude: number;
+  elevation: number;        // apparent, from the aircraft's horizontal plane
+  relativeBearing: number;  // off the nose, + right / − left
+}
+
+export interface SkySnapshot {
+  time: string;             // UTC
+  timeString: string;       // clock time at the origin
+  progressPercent: number;
+  lat: number;
+  lon: number;
+  milkyWay: boolean;        // dark enough: sun well below the horizon and no bright moon up
+  left: SkyObject[];        // brightest first
+  right: SkyObject[];
+  constellations: Record<SunSide, string[]>;
+}
+
+export interface NightSkyAnalysis {
+  snapshots: SkySnapshot[];                // every SKY_STEP_MS while the sky is dark
+  planets: {
+    name: PlanetName;
+    magnitude: number;
+    minutes: Record<SunSide, number>;      // in a window's view on each side
+  }[];
+  milkyWayMinutes: number;
+  summary: string[];
+}
+
+// Bundled catalogue of the stars down to about magnitude 2.5 (Yale Bright Star positions)
+const BRIGHT_STARS: BrightStar[] = starData as BrightStar[];
+
+// Keplerian elements and rates per Julian century (Standish, JPL; good for 1800-2050):
+// a (AU), e, I, L, long. of perihelion, long. of ascending node (degrees)
+const ORBITAL_ELEMENTS: Record<PlanetName | 'Earth', { elements: number[]; rates: number[] }> = {
+  Mercury: {
+    elements: [0.38709927, 0.20563593, 7.00497902, 252.25032350, 77.45779628, 48.33076593],
+    rates: [0.00000037, 0.00001906, -0.00594749, 149472.67411175, 0.16047689, -0.12534081]
+  },
+  Venus: {
+    elements: [0.72333566, 0.00677672, 3.39467605, 181.97909950, 131.60246718, 76.67984255],
+    rates: [0.00000390, -0.00004107, -0.00078890, 58517.81538729, 0.00268329, -0.27769418]
+  },
+  Earth: {
+    elements: [1.00000261, 0.01671123, -0.00001531, 100.46457166, 102.93768193, 0],
+    rates: [0.00000562, -0.00004392, -0.01294668, 35999.37244981, 0.32327364, 0]
+  },
+  Mars: {
+    elements: [1.52371034, 0.09339410, 1.84969142, -4.55343205, -23.94362959, 49.55953891],
+    rates: [0.00001847, 0.00007882, -0.00813131, 19140.30268499, 0.44441088, -0.29257343]
+  },
+  Jupiter: {
+    elements: [5.20288700, 0.04838624, 1.30439695, 34.39644051, 14.72847983, 100.47390909],
+    rates: [-0.00011607, -0.00013253, -0.00183714, 3034.74612775, 0.21252668, 0.20469106]
+  },
+  Saturn: {
+    elements: [9.53667594, 0.05386179, 2.48599187, 49.95424423, 92.59887831, 113.66242448],
+    rates: [-0.00125060, -0.00050991, 0.00193609, 1222.49362201, -0.41897216, -0.28867794]
+  }
+};
+
+// Absolute magnitude and phase-angle coefficients (degrees) for the brightness estimate
+const PLANET_MAGNITUDES: Record<PlanetName, { h: number; phase: (angle: number) => number }> = {
+  Mercury: { h: -0.42, phase: i => 0.038 * i - 0.000273 * i * i + 0.000002 * i * i * i },
+  Venus: { h: -4.40, phase: i => 0.0009 * i + 0.000239 * i * i - 0.00000065 * i * i * i },
+  Mars: { h: -1.52, phase: i => 0.016 * i },
+  Jupiter: { h: -9.40, phase: i => 0.005 * i },
+  Saturn: { h: -8.88, phase: i => 0.044 * i } // rings ignored
+};
+
+const PLANETS: PlanetName[] = ['Mercury', 'Venus', 'Mars', 'Jupiter', 'Saturn'];
+
+const OBLIQUITY = 23.43928;
+const SKY_STEP_MS = 30 * 60 * 1000;
+
+// Sun further below the horizon than this, and no moon above MILKY_WAY_MAX_MOON_FRACTION lit, for the Milky Way
+const MILKY_WAY_SUN_DEPRESSION = 18;
+const MILKY_WAY_MAX_MOON_FRACTION = 0.25;
+
+// Faintest star listed: brighter stars only in twilight
+const DARK_SKY_MAGNITUDE = 2.5;
+const TWILIGHT_MAGNITUDE = 1.5;
+const DARK_SKY_SUN_ELEVATION = -12;
+
+// A planet must be in view this long to make the summary
+const MIN_PLANET_MINUTES = 30;
+
+const rad = Math.PI / 180;
+
+const julianDate = (time: Date): number => time.getTime() / 86400000 + 2440587.5;
+
+/**
+ * Heliocentric ecliptic position (AU) from the mean orbital elements
+ */
+const heliocentric = (body: PlanetName | 'Earth', time: Date): [number, number, number] => {
+  const centuries = (julianDate(time) - 2451545) / 36525;
+  const { elements, rates } = ORBITAL_ELEMENTS[body];
+  const [a, e, inclination, meanLongitude, perihelion, node] = elements.map((value, i) => value + rates[i] * centuries);
+
+  const argument = (perihelion - node) * rad;
+  const meanAnomaly = ((meanLongitude - perihelion) % 360) * rad;
+  let eccentricAnomaly = meanAnomaly;
+  for (let i = 0; i < 10; i++) {
+    eccentricAnomaly -= (eccentricAnomaly - e * Math.sin(eccentricAnomaly) - meanAnomaly) / (1 - e * Math.cos(eccentricAnomaly));
+  }
+
+  const xOrbit = a * (Math.cos(eccentricAnomaly) - e);
+  const yOrbit = a * Math.sqrt(1 - e * e) * Math.sin(eccentricAnomaly);
+  const [cw, sw] = [Math.cos(argument), Math.sin(argument)];
+  const [cn, sn] = [Math.cos(node * rad), Math.sin(node * rad)];
+  const [ci, si] = [Math.cos(inclination * rad), Math.sin(inclination * rad)];
+
+  return [
+    (cw * cn - sw * sn * ci) * xOrbit + (-sw * cn - cw * sn * ci) * yOrbit,
+    (cw * sn + sw * cn * ci) * xOrbit + (-sw * sn + cw * cn * ci) * yOrbit,
+    sw * si * xOrbit + cw * si * yOrbit
+  ];
+};
+
+/**
+ * Geocentric right ascension/declination (degrees) and magnitude of a planet
+ */
+export const getPlanetPosition = (planet: PlanetName, time: Date): { ra: number; dec: number; magnitude: number } => {
+  const planetPos = heliocentric(planet, time);
+  const earthPos = heliocentric('Earth', time);
+  const [x, y, z] = planetPos.map((value, i) => value - earthPos[i]);
+
+  const yEq = y * Math.cos(OBLIQUITY * rad) - z * Math.sin(OBLIQUITY * rad);
+  const zEq = y * Math.sin(OBLIQUITY * rad) + z * Math.cos(OBLIQUITY * rad);
+
+  const r = Math.hypot(...planetPos);
+  const delta = Math.hypot(x, y, z);
+  const sunDistance = Math.hypot(...earthPos);
+  const phaseAngle = Math.acos(Math.min(1, Math.max(-1, (r * r + delta * delta - sunDistance * sunDistance) / (2 * r * delta)))) / rad;
+  const { h, phase } = PLANET_MAGNITUDES[planet];
+
+  return {
+    ra: ((Math.atan2(yEq, x) / rad) + 360) % 360,
+    dec: Math.atan2(zEq, Math.hypot(x, yEq)) / rad,
+    magnitude: Math.round((h + 5 * Math.log10(r * delta) + phase(phaseAngle)) * 10) / 10
+  };
+};
+
+/**
+ * Elevation and compass azimuth of a sky position (RA/Dec in degrees) for an observer.
+ * Catalogue positions are J2000; precession (about 0.35° by 2025) is ignored.
+ */
+const toHorizontal = (ra: number, dec: number, time: Date, lat: number, lon: number) => {
+  const siderealTime = 280.46061837 + 360.98564736629 * (julianDate(time) - 2451545) + lon;
+  const hourAngle = (siderealTime - ra) * rad;
+  const [phi, delta] = [lat * rad, dec * rad];
+
+  const elevation = Math.asin(Math.sin(phi) * Math.sin(delta) + Math.cos(phi) * Math.cos(delta) * Math.cos(hourAngle)) / rad;
+  const azimuth = Math.atan2(Math.sin(hourAngle), Math.cos(hourAngle) * Math.sin(phi) - Math.tan(delta) * Math.cos(phi)) / rad + 180;
+
+  return { elevation, azimuth: (azimuth + 360) % 360 };
+};
+
+/**
+ * Planets and bright stars above the horizon on each side of the aircraft during
+ * the dark part of a flight, with a Milky Way flag and a per-planet summary
+ */
+export const analyzeNightSky = (
+  positionAt: PositionAtTime,
+  start: Date,
+  end: Date,
+  originTimeZone: string,
+  darkSunElevation: number,   // sun elevation above the visible horizon below which the sky counts as dark
+  cabinLayout?: CabinLayout
+): NightSkyAnalysis => {
+  const snapshots: SkySnapshot[] = [];
+  const planetMinutes = new Map<PlanetName, { magnitude: number; minutes: Record<SunSide, number> }>();
+  let milkyWayMinutes = 0;
+
+  for (let ms = start.getTime(); ms < end.getTime(); ms += SKY_STEP_MS) {
+    const stepMinutes = (Math.min(ms + SKY_STEP_MS, end.getTime()) - ms) / 60000;
+    const time = new Date(ms + stepMinutes * 30000);
+    const position = positionAt(time);
+    const heading = headingAt(positionAt, time);
+    if (heading === undefined) continue;
+
+    const sunElevation = SunCalc.getPosition(time, position.lat, position.lon).altitude / rad;
+    if (getSunVisibility(sunElevation, position.altitude).elevationAboveHorizon > darkSunElevation) continue;
+
+    const moon = getMoonPosition(time, position.lat, position.lon, position.altitude);
+    const moonUp = moon.elevationAboveHorizon > 0;
+    const milkyWay = sunElevation < -MILKY_WAY_SUN_DEPRESSION && (!moonUp || moon.illumination < MILKY_WAY_MAX_MOON_FRACTION);
+    if (milkyWay) milkyWayMinutes += stepMinutes;
+
+    const dip = getHorizonDip(position.altitude);
+    const magnitudeLimit = sunElevation < DARK_SKY_SUN_ELEVATION ? DARK_SKY_MAGNITUDE : TWILIGHT_MAGNITUDE;
+    const candidates = [
+      ...PLANETS.map(name => ({ name, type: 'planet' as const, ...getPlanetPosition(name, time) })),
+      ...BRIGHT_STARS
+        .filter(star => star.mag <= magnitudeLimit)
+        .map(star => ({ name: star.name, type: 'star' as const, constellation: star.constellation, ra: star.ra * 15, dec: star.dec, magnitude: star.mag }))
+    ];
+
+    const sides: Record<SunSide, SkyObject[]> = { left: [], right: [] };
+    candidates.forEach(candidate => {
+      const horizontal = toHorizontal(candidate.ra, candidate.dec, time, position.lat, position.lon);
+      const elevation = horizontal.elevation + getAtmosphericRefraction(horizontal.elevation, position.altitude);
+      if (elevation + dip <= 0) return;
+
+      const relativeBearing = normalizeRelativeBearing(horizontal.azimuth - heading);
+      const coverage = getSideCoverage(cabinLayout, relativeBearing, elevation);
+      if (coverage.state !== 'clear') return;
+
+      sides[coverage.side].push({
+        name: candidate.name,
+        type: candidate.type,
+        constellation: candidate.type === 'star' ? candidate.constellation : undefined,
+        magnitude: candidate.magnitude,
+        elevation: Math.round(elevation * 10) / 10,
+        relativeBearing: Math.round(relativeBearing)
+      });
+
+      if (candidate.type === 'planet') {
+        const entry = planetMinutes.get(candidate.name) || { magnitude: candidate.magnitude, minutes: { left: 0, right: 0 } };
+        entry.minutes[coverage.side] += stepMinutes;
+        entry.magnitude = Math.min(entry.magnitude, candidate.magnitude);
+        planetMinutes.set(candidate.name, entry);
+      }
+    });
+
+    const brightestFirst = (a: SkyObject, b: SkyObject) => a.magnitude - b.magnitude;
+    const constellationsOf = (objects: SkyObject[]) =>
+      [...new Set(objects.filter(object => object.constellation).map(object => object.constellation!))];
+
+    snapshots.push({
+      time: time.toISOString(),
+      timeString: formatClockTime(time, originTimeZone),
+      progressPercent: position.progressPercent,
+      lat: position.lat,
+      lon: position.lon,
+      milkyWay,
+      left: sides.left.sort(brightestFirst),
+      right: sides.right.sort(brightestFirst),
+      constellations: { left: constellationsOf(sides.left), right: constellationsOf(sides.right) }
+    });
+  }
+
+  const planets = PLANETS
+    .filter(name => planetMinutes.has(name))
+    .map(name => {
+      const { magnitude, minutes } = planetMinutes.get(name)!;
+      return { name, magnitude, minutes: { left: Math.round(minutes.left), right: Math.round(minutes.right) } };
+    });
+
+  const summary: string[] = [];
+  planets
+    .filter(planet => planet.minutes.left + planet.minutes.right >= MIN_PLANET_MINUTES)
+    .sort((a, b) => a.magnitude - b.magnitude)
+    .forEach(planet => {
+      const side: SunSide = planet.minutes.left >= planet.minutes.right ? 'left' : 'right';
+      summary.push(`🪐 ${planet.name} (magnitude ${planet.magnitude}) out the ${side.toUpperCase()} windows for ${formatDuration(planet.minutes[side])}`);
+    });
+
+  const brightestStars = (['left', 'right'] as SunSide[]).map(side => {
+    const stars = snapshots.flatMap(snapshot => snapshot[side].filter(object => object.type === 'star'));
+    const names = [...new Set(stars.sort((a, b) => a.magnitude - b.magnitude).map(star => star.name))];
+    return names.length > 0 ? `${side}: ${names.slice(0, 3).join(', ')}` : '';
+  }).filter(Boolean);
+  if (brightestStars.length > 0) {
+    summary.push(`⭐ Bright stars in view - ${brightestStars.join('; ')}`);
+  }
+
+  if (milkyWayMinutes > 0) {
+    summary.push(`🌠 Dark enough for the Milky Way for about ${formatDuration(milkyWayMinutes)} (sun more than ${MILKY_WAY_SUN_DEPRESSION}° down, no bright moon)`);
+  }
+
+  return { snapshots, planets, milkyWayMinutes: Math.round(milkyWayMinutes), summary };
+};
@@ -0,0 +1,199 @@
+import { SUN_SEMI_DIAMETER, toCompassAzimuth } from './sunPositionService';
+import { PositionAtTime, headingAt } from './sunEventService';
+import { CabinLayout, getSideCoverage } from './aircraftCabinService';
+import { SunSide, formatDuration, normalizeRelativeBearing } from './seatRecommendationService';
+import { LocalTimes } from './timeZoneService';
+
+export type OpticalPhenomenon = 'glory' | 'aircraft-shadow' | 'rainbow' | 'noctilucent-clouds';
+
+/**
+ * The parts of a sun timeline sample the optics predictions need
+ */
+export interface OpticsSample {
+  time: Date;
+  timeString: string;
+  times: LocalTimes;
+  lat: number;
+  progressPercent: number;
+  altitude: number;          // metres
+  sunElevation: number;      // geometric
+  apparentElevation: number;
+  horizonDip: number;
+  sunAzimuth: number;        // SunCalc convention
+}
+
+export interface OpticalWindow {
+  type: OpticalPhenomenon;
+  start: LocalTimes;
+  end: LocalTimes;
+  startString: string;       // clock time at the origin
+  endString: string;
+  startProgressPercent: number;
+  endProgressPercent: number;
+  minutes: number;
+  side: SunSide;             // windows that look towards it
+}
+
+export interface OpticsAnalysis {
+  windows: OpticalWindow[];  // stretches where each phenomenon is geometrically possible, in order
+  summary: string[];
+}
+
+// Primary rainbow radius around the antisolar point
+const RAINBOW_RADIUS = 42;
+const RAINBOW_POINTS = 36;
+
+// A sharp shadow needs the aircraft within its umbra's length of the surface below:
+// wingspan divided by the sun's angular diameter (about 3.5 km for a narrow-body)
+const DEFAULT_WINGSPAN_M = 35;
+const FUSELAGE_WIDTH_M = 4;
+
+// Noctilucent clouds: summer nights at these latitudes with the sun this far down,
+// seen low over the horizon towards the sun
+const NOCTILUCENT_LATITUDES: [number, number] = [48, 70];
+const NOCTILUCENT_SUN_ELEVATION: [number, number] = [-16, -6];
+const NOCTILUCENT_VIEW_ELEVATION = 5;
+const NOCTILUCENT_SEASON = {
+  north: [[5, 20], [8, 15]],  // month/day, late May to mid-August
+  south: [[11, 20], [2, 15]]  // late November to mid-February
+};
+
+const SUMMARY_TEXT: Record<OpticalPhenomenon, { emoji: string; name: string; hint: string }> = {
+  glory: { emoji: '⭕', name: 'Glory', hint: 'look down opposite the sun, over cloud' },
+  'aircraft-shadow': { emoji: '✈️', name: "Aircraft's shadow", hint: 'look down opposite the sun, on cloud or ground close below' },
+  rainbow: { emoji: '🌈', name: 'Rainbows', hint: 'opposite the sun, in showers' },
+  'noctilucent-clouds': { emoji: '☁️', name: 'Noctilucent clouds', hint: 'low over the horizon towards the sun' }
+};
+
+const rad = Math.PI / 180;
+
+/**
+ * Point at an angular distance and position angle from a sky position (relative bearing/elevation)
+ */
+const offsetPoint = (bearing: number, elevation: number, distance: number, angle: number) => {
+  const [el, r, a] = [elevation * rad, distance * rad, angle * rad];
+  const pointElevation = Math.asin(Math.sin(el) * Math.cos(r) + Math.cos(el) * Math.sin(r) * Math.cos(a));
+  const pointBearing = bearing + Math.atan2(Math.sin(a) * Math.sin(r) * Math.cos(el), Math.cos(r) - Math.sin(el) * Math.sin(pointElevation)) / rad;
+  return { relativeBearing: normalizeRelativeBearing(pointBearing), elevation: pointElevation / rad };
+};
+
+const inNoctilucentSeason = (time: Date, lat: number): boolean => {
+  const [[fromMonth, fromDay], [toMonth, toDay]] = lat >= 0 ? NOCTILUCENT_SEASON.north : NOCTILUCENT_SEASON.south;
+  const day = (time.getUTCMonth() + 1) * 100 + time.getUTCDate();
+  const from = fromMonth * 100 + fromDay;
+  const to = toMonth * 100 + toDay;
+  return from <= to ? day >= from && day <= to : day >= from || day <= to;
+};
+
+/**
+ * Side of the cabin, if any, from which each phenomenon is geometrically possible at one sample
+ */
+const sidesAt = (
+  sample: OpticsSample,
+  heading: number,
+  cabinLayout: CabinLayout | undefined,
+  umbraLengthM: number
+): Partial<Record<OpticalPhenomenon, SunSide>> => {
+  const sides: Partial<Record<OpticalPhenomenon, SunSide>> = {};
+  const sunBearing = normalizeRelativeBearing(toCompassAzimuth(sample.sunAzimuth) - heading);
+  const antisolarBearing = normalizeRelativeBearing(sunBearing + 180);
+  const antisolarElevation = -sample.apparentElevation;
+
+  // Glory and shadow sit on the antisolar point, which is on the cloud or ground below
+  // once the sun is higher than the horizon dip
+  if (sample.apparentElevation > sample.horizonDip) {
+    const coverage = getSideCoverage(cabinLayout, antisolarBearing, antisolarElevation);
+    if (coverage.state === 'clear') {
+      sides.glory = coverage.side;
+      if (sample.altitude < umbraLengthM) sides['aircraft-shadow'] = coverage.side;
+    }
+  }
+
+  // Rainbow: some of the 42° circle round the antisolar point above the visible horizon and in view
+  if (sample.apparentElevation + sample.horizonDip > 0 && sample.apparentElevation < RAINBOW_RADIUS + sample.horizonDip) {
+    const clear = { left: 0, right: 0 };
+    for (let i = 0; i < RAINBOW_POINTS; i++) {
+      const point = offsetPoint(antisolarBearing, antisolarElevation, RAINBOW_RADIUS, i * 360 / RAINBOW_POINTS);
+      if (point.elevation + sample.horizonDip <= 0) continue;
+      const coverage = getSideCoverage(cabinLayout, point.relativeBearing, point.elevation);
+      if (coverage.state === 'clear') clear[coverage.side]++;
+    }
+    if (clear.left + clear.right > 0) sides.rainbow = clear.left >= clear.right ? 'left' : 'right';
+  }
+
+  const latitude = Math.abs(sample.lat);
+  if (latitude >= NOCTILUCENT_LATITUDES[0] && latitude <= NOCTILUCENT_LATITUDES[1] &&
+      sample.sunElevation >= NOCTILUCENT_SUN_ELEVATION[0] && sample.sunElevation <= NOCTILUCENT_SUN_ELEVATION[1] &&
+      inNoctilucentSeason(sample.time, sample.lat)) {
+    const coverage = getSideCoverage(cabinLayout, sunBearing, NOCTILUCENT_VIEW_ELEVATION);
+    if (coverage.state === 'clear') sides['noctilucent-clouds'] = coverage.side;
+  }
+
+  return sides;
+};
+
+/**
+ * When and on which side glories, the aircraft's shadow, rainbows and noctilucent clouds are
+ * geometrically possible, from the sun timeline and the aircraft's heading. Whether they show
+ * depends on cloud and rain the model knows nothing about.
+ */
+export const analyzeOptics = (
+  timeline: OpticsSample[],
+  positionAt: PositionAtTime,
+  cabinLayout?: CabinLayout
+): OpticsAnalysis => {
+  const wingspanM = cabinLayout ? 2 * cabinLayout.wing.semiSpanM + FUSELAGE_WIDTH_M : DEFAULT_WINGSPAN_M;
+  const umbraLengthM = wingspanM / (2 * SUN_SEMI_DIAMETER * rad);
+
+  const sides = timeline.map(sample => {
+    const heading = headingAt(positionAt, sample.time);
+    return heading === undefined ? {} : sidesAt(sample, heading, cabinLayout, umbraLengthM);
+  });
+
+  // A window runs from its first sample to the first sample after it (or the last sample)
+  const windows: OpticalWindow[] = [];
+  (Object.keys(SUMMARY_TEXT) as OpticalPhenomenon[]).forEach(type => {
+    let first: number | undefined;
+    sides.forEach((current, i) => {
+      const side = current[type];
+      if (first !== undefined && side !== sides[first][type]) {
+        windows.push(toWindow(type, sides[first][type]!, timeline[first], timeline[i]));
+        first = undefined;
+      }
+      if (side && first === undefined) first = i;
+    });
+    if (first !== undefined && first < timeline.length - 1) {
+      windows.push(toWindow(type, sides[first][type]!, timeline[first], timeline[timeline.length - 1]));
+    }
+  });
+  windows.sort((a, b) => a.start.utc.localeCompare(b.start.utc));
+
+  const summary: string[] = [];
+  (Object.keys(SUMMARY_TEXT) as OpticalPhenomenon[]).forEach(type => {
+    const ofType = windows.filter(window => window.type === type);
+    if (ofType.length === 0) return;
+
+    const minutes = { left: 0, right: 0 };
+    ofType.forEach(window => { minutes[window.side] += window.minutes; });
+    const side: SunSide = minutes.left >= minutes.right ? 'left' : 'right';
+    const { emoji, name, hint } = SUMMARY_TEXT[type];
+    const when = ofType.length === 1
+      ? `${ofType[0].startString}–${ofType[0].endString}`
+      : `${ofType.length} times, first ${ofType[0].startString}–${ofType[0].endString}`;
+    summary.push(`${emoji} ${name} possible for ${formatDuration(minutes.left + minutes.right)} (${when}) on the ${side.toUpperCase()} side - ${hint}`);
+  });
+
+  return { windows, summary };
+};
+
+const toWindow = (type: OpticalPhenomenon, side: SunSide, from: OpticsSample, to: OpticsSample): OpticalWindow => ({
+  type,
+  start: from.times,
+  end: to.times,
+  startString: from.timeString,
+  endString: to.timeString,
+  startProgressPercent: Math.round(from.progressPercent),
+  endProgressPercent: Math.round(to.progressPercent),
+  minutes: Math.round((to.time.getTime() - from.time.getTime()) / 60000),
+  side
+});
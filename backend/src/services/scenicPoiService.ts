@@ -0,0 +1,166 @@
+import SunCalc from 'suncalc';
+import poiData from '../data/scenicPois.json';
+import { PositionAtTime, headingAt } from './sunEventService';
+import { CabinLayout, getSideCoverage } from './aircraftCabinService';
+import { SunSide, calculateBearing, normalizeRelativeBearing } from './seatRecommendationService';
+import { getClosestApproach, getLineOfSight } from './landmarkService';
+import { LocalTimes, formatClockTime, toLocalTimes } from './timeZoneService';
+import { GROUND_SUNRISE_ELEVATION } from './sunPositionService';
+
+export type PoiCategory = 'peak' | 'volcano' | 'glacier' | 'desert' | 'river' | 'lake' | 'landmark';
+
+export const POI_CATEGORIES: PoiCategory[] = ['peak', 'volcano', 'glacier', 'desert', 'river', 'lake', 'landmark'];
+
+/**
+ * A point of interest is a single point with a rough size: areas (deserts, lakes, deltas)
+ * are treated as a disc of that size around it, and rivers are one named stretch, gorge
+ * or delta rather than the whole course of the river
+ */
+export interface ScenicPoi {
+  id: string;
+  name: string;
+  category: PoiCategory;
+  region: string;
+  lat: number;
+  lon: number;
+  elevation: number;      // metres; the summit or top for peaks, volcanoes and buildings
+  sizeKm: number;         // rough extent across; areas count as seen from their edge
+  needsDaylight: boolean; // false for things that show at night (lava glow, lit cities, bridges and coastlines)
+}
+
+export interface PoiSighting {
+  id: string;
+  name: string;
+  category: PoiCategory;
+  region: string;
+  closestApproach: {
+    time: LocalTimes;
+    timeString: string;       // clock time at the origin
+    progressPercent: number;
+    distanceKm: number;       // ground distance to the nearest edge, 0 when overhead
+    altitude: number;         // aircraft altitude, metres
+  };
+  side: SunSide | 'both';     // 'both' when the aircraft is over it
+  apparentSize: number;       // degrees across from the aircraft
+  lineOfSight: boolean;       // not hidden behind the curve of the earth
+  lit: boolean;               // daylight on it, or it doesn't need any
+  visible: boolean;           // in line of sight, lit and in a window's view
+  description: string;
+}
+
+export interface ScenicPoiAnalysis {
+  categories: PoiCategory[];  // categories searched
+  pois: PoiSighting[];        // in order of passing
+  summary: string[];
+}
+
+// The mountain-view summits are left to the landmark service, so none is listed twice
+const SCENIC_POIS = poiData as ScenicPoi[];
+
+// Same reach as the mountain-view feature, from the edge of an area
+const MAX_RANGE_KM = 400;
+
+// Smaller than this across (about two full moons) a feature is too small to pick out
+const MIN_APPARENT_SIZE = 1;
+
+const POIS_PER_CATEGORY_IN_SUMMARY = 5;
+
+const SUMMARY_TEXT: Record<PoiCategory, { emoji: string; name: string }> = {
+  peak: { emoji: '🏔️', name: 'Peaks' },
+  volcano: { emoji: '🌋', name: 'Volcanoes' },
+  glacier: { emoji: '🧊', name: 'Glaciers' },
+  desert: { emoji: '🏜️', name: 'Deserts' },
+  river: { emoji: '🏞️', name: 'Rivers' },
+  lake: { emoji: '💧', name: 'Lakes' },
+  landmark: { emoji: '📍', name: 'Landmarks' }
+};
+
+const rad = Math.PI / 180;
+
+/**
+ * Scenic points of interest of the chosen categories that the flight passes, with the side,
+ * time of closest approach and whether they can be made out: big enough at that distance,
+ * above the horizon, in a window's view and, for most, in daylight
+ */
+export const getScenicPoiSightings = (
+  positionAt: PositionAtTime,
+  start: Date,
+  end: Date,
+  originTimeZone: string,
+  destinationTimeZone: string,
+  categories: PoiCategory[],
+  cabinLayout?: CabinLayout
+): ScenicPoiAnalysis => {
+  const pois: PoiSighting[] = [];
+
+  SCENIC_POIS
+    .filter(poi => categories.includes(poi.category))
+    .forEach(poi => {
+      const radiusKm = poi.sizeKm / 2;
+      const approach = getClosestApproach(positionAt, start, end, poi.lat, poi.lon, MAX_RANGE_KM + radiusKm);
+      if (!approach) return;
+
+      const { time, distanceKm } = approach;
+      const overhead = distanceKm <= radiusKm;
+      const apparentSize = overhead ? 180 : 2 * Math.atan(radiusKm / distanceKm) / rad;
+      if (apparentSize < MIN_APPARENT_SIZE) return;
+
+      const position = positionAt(time);
+      const edgeKm = Math.max(0, distanceKm - radiusKm);
+      const sunElevation = SunCalc.getPosition(time, poi.lat, poi.lon).altitude / rad;
+      // Twilight is too dim to make out a feature from cruise altitude; the sun must be up there
+      const lit = !poi.needsDaylight || sunElevation > GROUND_SUNRISE_ELEVATION;
+
+      let side: PoiSighting['side'] = 'both';
+      let lineOfSight = true;
+      let inView = true;
+      let description = 'below the aircraft, out of both sides';
+      if (!overhead) {
+        const heading = headingAt(positionAt, time) ?? 0;
+        const relativeBearing = normalizeRelativeBearing(calculateBearing(position.lat, position.lon, poi.lat, poi.lon) - heading);
+        const sight = getLineOfSight(position.altitude, poi.elevation, edgeKm);
+        const coverage = getSideCoverage(cabinLayout, relativeBearing, sight.elevationAngle);
+        side = coverage.side;
+        lineOfSight = sight.lineOfSight;
+        inView = coverage.state === 'clear';
+        description = lineOfSight ? coverage.description : 'below the horizon';
+      }
+      if (lineOfSight && !lit) description = 'in darkness at the time';
+
+      pois.push({
+        id: poi.id,
+        name: poi.name,
+        category: poi.category,
+        region: poi.region,
+        closestApproach: {
+          time: toLocalTimes(time, originTimeZone, destinationTimeZone),
+          timeString: formatClockTime(time, originTimeZone),
+          progressPercent: Math.round(position.progressPercent),
+          distanceKm: Math.round(edgeKm),
+          altitude: Math.round(position.altitude)
+        },
+        side,
+        apparentSize: Math.round(apparentSize * 10) / 10,
+        lineOfSight,
+        lit,
+        visible: lineOfSight && lit && inView,
+        description
+      });
+    });
+
+  pois.sort((a, b) => a.closestApproach.time.utc.localeCompare(b.closestApproach.time.utc));
+
+  const summary: string[] = [];
+  categories.forEach(category => {
+    const visible = pois.filter(poi => poi.category === category && poi.visible);
+    if (visible.length === 0) return;
+    const { emoji, name } = SUMMARY_TEXT[category];
+    const names = visible
+      .slice(0, POIS_PER_CATEGORY_IN_SUMMARY)
+      .map(poi => `${poi.name} (${poi.side === 'both' ? 'below' : poi.side.toUpperCase()}, ~${poi.closestApproach.timeString})`);
+    const more = visible.length > POIS_PER_CATEGORY_IN_SUMMARY ? ` and ${visible.length - POIS_PER_CATEGORY_IN_SUMMARY} more` : '';
+    summary.push(`${emoji} ${name}: ${names.join(', ')}${more}`);
+  });
+
+  return { categories, pois, summary };
+};
@@ -1,72 +1,609 @@
-import { SunPosition } from './sunPositionService';
+import { SunPosition, toCompassAzimuth } from './sunPositionService';
 import { Waypoint } from './flightPathService';
+import { formatClockTime } from './timeZoneService';
+import {
+  CabinLayout,
+  RowPosition,
+  RowRanking,
+  RowViewState,
+  SideSeating,
+  describeSideSeating,
+  formatRowRanges,
+  getCabinLayout,
+  getRowPosition,
+  getSideCoverage,
+  rankRows
+} from './aircraftCabinService';
+
+export type SunSide = 'left' | 'right';
+
+// Why no window sees the sun
+export type HiddenReason = Exclude<RowViewState, 'clear'> | 'below-horizon';
+
+export interface SeatPhase {
+  side: SunSide | 'none';   // side of the cabin the sun is on ('none' while no window sees it)
+  start: string;            // UTC
+  end: string;
+  startTimeString: string;  // clock time at the origin
+  minutes: number;
+  relativeBearing?: number; // mean sun bearing relative to the nose, + right / − left
+  hidden?: HiddenReason;    // why no window sees the sun, for 'none' phases
+  rows?: string;            // window rows that see the sun for most of the phase, when the aircraft type is known
+  position?: RowPosition;   // where those rows are
+  description: string;      // "First 2h: sun on the left", "After 13:06: sun on the right, forward rows"
+}
+
+export interface SeatPlan {
+  side: SunSide | 'either'; // side with the most minutes of visible sun
+  leftMinutes: number;
+  rightMinutes: number;
+  phases: SeatPhase[];
+}
+
+export interface SeatRecommendation {
+  side: SunSide | 'either' | 'none'; // 'none' when the sun is never in view
+  confidence: number;                // 0-1, how clearly one side wins
+  scores: Record<SunSide, number>;   // 0-100, sun minutes weighted by viewing quality
+  minutes: Record<SunSide, number>;  // minutes of visible sun on each side
+  relativeBearing?: number;          // mean sun bearing on the chosen side, + right / − left of the nose; unset for 'either'
+  position?: RowPosition;            // where the best rows are on the chosen side
+  clockPosition?: number;            // same as a clock face: 12 = nose, 3 = right wing, 9 = left wing
+  sideBearings?: Partial<Record<SunSide, SideBearing>>; // the same per side, for each side the sun is seen on
+  seats?: Record<SunSide, SideSeating>; // seat letters and rows on each side, when the aircraft type is known
+  rows?: Record<SunSide, RowRanking[]>; // window rows ranked by how much of the sun they see clear of the wing
+  bestRows?: string;                 // top-ranked rows on the chosen side, e.g. "1-10, 20-25, 45-58"
+  factors: string[];                 // what decided it
+  explanation: string;
+}
+
+export interface SideBearing {
+  relativeBearing: number;
+  clockPosition: number;
+}
+
+// What the traveller wants from the window: to watch the sun, or to keep it out
+export type SeatObjective = 'view-sun' | 'avoid-sun';
+
+export interface ShadePeriod {
+  side: SunSide;
+  start: string;           // UTC
+  end: string;
+  startTimeString: string; // clock time at the origin
+  endTimeString: string;
+  minutes: number;
+  description: string;     // "Right side: keep the shade down 09:15 GMT - 14:05 GMT (4h 50m)"
+}
+
+export interface SunExposure {
+  shadedSide: SunSide | 'either'; // side with the least direct sun
+  minutes: Record<SunSide, number>; // direct sun through the windows on each side
+  shadeDownPeriods: ShadePeriod[];  // when the sun shines in, in order
+  explanation: string;
+}
+
+interface SeatSegment {
+  start: Date;
+  end: Date;
+  minutes: number;
+  side: SunSide | 'none';
+  hidden?: HiddenReason;
+  relativeBearing: number;
+  elevation: number;         // above the visible horizon
+  apparentElevation: number; // above the aircraft's horizontal plane, as the windows and wing see it
+}
+
+// Shorter phases (heading wobbles, sun passing the nose) are folded into their neighbour
+const MIN_PHASE_MINUTES = 10;
+
+// Score gap (out of 100) below which neither side is clearly better
+const EITHER_SIDE_MARGIN = 10;
+
+// Below this the sun is in sunrise/sunset colours
+const LOW_SUN_ELEVATION = 10;
+
+// Rows within this many points of the best clear-view share count as equally good
+const BEST_ROW_MARGIN = 5;
+
+// Sunlight comes in through a window when it is within ~75° of the window's normal
+const MIN_GLARE_COSINE = 0.25;
 
 // Calculate bearing between two points
-const calculateBearing = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+export const calculateBearing = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
   const dLon = (lon2 - lon1) * Math.PI / 180;
   const lat1Rad = lat1 * Math.PI / 180;
   const lat2Rad = lat2 * Math.PI / 180;
-  
+
   const y = Math.sin(dLon) * Math.cos(lat2Rad);
   const x = Math.cos(lat1Rad) * Math.sin(lat2Rad) - Math.sin(lat1Rad) * Math.cos(lat2Rad) * Math.cos(dLon);
-  
+
   let bearing = Math.atan2(y, x) * 180 / Math.PI;
   bearing = (bearing + 360) % 360; // Normalize to 0-360
-  
+
   return bearing;
 };
 
-export const getSeatRecommendation = (sunPositions: SunPosition[], flightPath: Waypoint[]): string => {
-  // Filter for waypoints where sun is visible (elevation > 0) and not too high (elevation < 80)
-  const visibleSunPositions = sunPositions.filter(
-    pos => pos.elevation > 0 && pos.elevation < 80
-  );
+/**
+ * Angle difference folded into (-180°, 180°]
+ */
+export const normalizeRelativeBearing = (degrees: number): number => {
+  const folded = ((degrees + 180) % 360 + 360) % 360 - 180;
+  return folded === -180 ? 180 : folded;
+};
 
-  if (visibleSunPositions.length === 0) {
-    return 'No optimal window seat - sun will not be visible during flight';
+/**
+ * Weighted circular mean of angles in degrees (an arithmetic mean breaks across 0/360°)
+ */
+const circularMean = (angles: number[], weights: number[] = angles.map(() => 1)): number => {
+  let x = 0;
+  let y = 0;
+  angles.forEach((angle, i) => {
+    x += weights[i] * Math.cos(angle * Math.PI / 180);
+    y += weights[i] * Math.sin(angle * Math.PI / 180);
+  });
+  return Math.atan2(y, x) * 180 / Math.PI;
+};
+
+export const formatDuration = (minutes: number): string => {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+};
+
+/**
+ * Sun side for each leg of the path, using that leg's own heading
+ * (great-circle headings drift by tens of degrees on long flights). The sun
+ * only counts for a side while some window on it has the sun in its field of view.
+ */
+const buildSeatSegments = (sunPositions: SunPosition[], flightPath: Waypoint[], layout?: CabinLayout): SeatSegment[] => {
+  const segments: SeatSegment[] = [];
+
+  for (let i = 0; i < flightPath.length - 1 && i < sunPositions.length - 1; i++) {
+    const a = flightPath[i];
+    const b = flightPath[i + 1];
+    const start = new Date(a.time);
+    const end = new Date(b.time);
+    const minutes = (end.getTime() - start.getTime()) / 60000;
+
+    // Taxiing at the gate: no track to take a heading from
+    if (minutes <= 0 || (a.lat === b.lat && a.lon === b.lon)) continue;
+
+    const heading = calculateBearing(a.lat, a.lon, b.lat, b.lon);
+    const sunA = sunPositions[i];
+    const sunB = sunPositions[i + 1];
+    const sunAzimuth = circularMean([toCompassAzimuth(sunA.azimuth), toCompassAzimuth(sunB.azimuth)]);
+    const relativeBearing = normalizeRelativeBearing(sunAzimuth - heading);
+    const elevation = (sunA.elevationAboveHorizon + sunB.elevationAboveHorizon) / 2;
+    const apparentElevation = (sunA.apparentElevation + sunB.apparentElevation) / 2;
+
+    const coverage = getSideCoverage(layout, relativeBearing, apparentElevation);
+    const hidden = elevation <= 0 ? 'below-horizon' : coverage.state !== 'clear' ? coverage.state : undefined;
+
+    segments.push({
+      start,
+      end,
+      minutes,
+      side: hidden ? 'none' : coverage.side,
+      hidden,
+      relativeBearing,
+      elevation,
+      apparentElevation
+    });
   }
 
-  // Calculate flight direction (bearing from start to end)
-  if (flightPath.length < 2) {
-    return 'Unable to determine flight direction';
+  return segments;
+};
+
+/**
+ * Group consecutive segments with the sun on the same side into phases
+ */
+const groupPhases = (segments: SeatSegment[]): SeatSegment[][] => {
+  const groups: SeatSegment[][] = [];
+  segments.forEach(segment => {
+    const last = groups[groups.length - 1];
+    if (last && last[0].side === segment.side) {
+      last.push(segment);
+    } else {
+      groups.push([segment]);
+    }
+  });
+  return groups;
+};
+
+const groupMinutes = (group: SeatSegment[]): number => group.reduce((sum, segment) => sum + segment.minutes, 0);
+
+const HIDDEN_SUN: Record<Exclude<RowViewState, 'clear'>, string> = {
+  'ahead': 'ahead',
+  'behind': 'behind',
+  'above-window': 'overhead',
+  'below-window': 'below the windows',
+  'wing': 'behind the wing',
+  'engine': 'behind the engine'
+};
+
+/**
+ * The reason covering most of a phase's minutes while no window sees the sun
+ */
+const dominantReason = (group: SeatSegment[]): SeatSegment['hidden'] => {
+  const minutes = new Map<SeatSegment['hidden'], number>();
+  group.forEach(segment => {
+    if (segment.hidden) minutes.set(segment.hidden, (minutes.get(segment.hidden) || 0) + segment.minutes);
+  });
+  return [...minutes.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+};
+
+/**
+ * Which side the sun is on through the flight, phase by phase,
+ * and which side sees it for longest overall
+ */
+export const getSeatPlan = (
+  sunPositions: SunPosition[],
+  flightPath: Waypoint[],
+  timeZone: string = 'UTC',
+  aircraftType?: string
+): SeatPlan => {
+  const layout = aircraftType ? getCabinLayout(aircraftType) : undefined;
+  const segments = buildSeatSegments(sunPositions, flightPath, layout);
+
+  const leftMinutes = segments.filter(s => s.side === 'left').reduce((sum, s) => sum + s.minutes, 0);
+  const rightMinutes = segments.filter(s => s.side === 'right').reduce((sum, s) => sum + s.minutes, 0);
+
+  // Fold short flickers into the previous phase, then merge neighbours that now agree
+  const groups: SeatSegment[][] = [];
+  groupPhases(segments).forEach(group => {
+    const previous = groups[groups.length - 1];
+    if (previous && groupMinutes(group) < MIN_PHASE_MINUTES) {
+      previous.push(...group.map(segment => ({ ...segment, side: previous[0].side })));
+    } else if (previous && previous[0].side === group[0].side) {
+      previous.push(...group);
+    } else {
+      groups.push(group);
+    }
+  });
+
+  const phases: SeatPhase[] = groups.map((group, i) => {
+    const start = group[0].start;
+    const end = group[group.length - 1].end;
+    const minutes = groupMinutes(group);
+    const side = group[0].side;
+    const startTimeString = formatClockTime(start, timeZone);
+
+    // Rows that see the sun for most of the phase, and where they are
+    let rows: string | undefined;
+    let position: RowPosition | undefined;
+    if (layout && side !== 'none') {
+      const clear = rankRows(layout, side, group.map(segment => ({
+        relativeBearing: segment.relativeBearing,
+        elevation: segment.apparentElevation,
+        weight: segment.minutes
+      }))).filter(row => row.clearPercent >= 50).map(row => row.row).sort((a, b) => a - b);
+      if (clear.length > 0) {
+        rows = formatRowRanges(clear);
+        position = getRowPosition(layout, clear);
+      }
+    }
+
+    const hidden = side === 'none' ? dominantReason(group) : undefined;
+    let what: string;
+    if (hidden === 'below-horizon') {
+      what = 'sun below the horizon';
+    } else if (hidden) {
+      what = `sun ${HIDDEN_SUN[hidden]} - not visible from any window`;
+    } else {
+      what = `sun on the ${side}`;
+      if (position === 'forward' || position === 'rear') what += `, ${position} rows`;
+    }
+
+    let description: string;
+    if (i === 0) {
+      description = `First ${formatDuration(minutes)}: ${what}`;
+    } else if (i === groups.length - 1) {
+      description = `After ${startTimeString}: ${what}`;
+    } else {
+      description = `From ${startTimeString} for ${formatDuration(minutes)}: ${what}`;
+    }
+
+    const visible = group.filter(segment => segment.side !== 'none');
+    return {
+      side,
+      start: start.toISOString(),
+      end: end.toISOString(),
+      startTimeString,
+      minutes: Math.round(minutes),
+      relativeBearing: visible.length > 0
+        ? Math.round(circularMean(visible.map(s => s.relativeBearing), visible.map(s => s.minutes)))
+        : undefined,
+      hidden,
+      rows,
+      position,
+      description
+    };
+  });
+
+  return {
+    side: leftMinutes > rightMinutes ? 'left' : rightMinutes > leftMinutes ? 'right' : 'either',
+    leftMinutes: Math.round(leftMinutes),
+    rightMinutes: Math.round(rightMinutes),
+    phases
+  };
+};
+
+/**
+ * How much a minute of sun is worth: low sun (sunrise/sunset colours) counts double,
+ * and sun abeam is easier to see than sun near the nose or tail
+ */
+const viewingWeight = (segment: SeatSegment): number => {
+  const elevationWeight = segment.elevation < LOW_SUN_ELEVATION ? 2 : segment.elevation < 30 ? 1.5 : 1;
+  const bearingWeight = 0.5 + 0.5 * Math.abs(Math.sin(segment.relativeBearing * Math.PI / 180));
+  return elevationWeight * bearingWeight;
+};
+
+/**
+ * Relative bearing as a clock position (12 = straight ahead, 3 = right wing)
+ */
+const toClockPosition = (relativeBearing: number): number => {
+  const hour = Math.round(((relativeBearing % 360) + 360) % 360 / 30) % 12;
+  return hour === 0 ? 12 : hour;
+};
+
+/**
+ * Scored seat recommendation with the reasoning behind it
+ */
+export const getScoredSeatRecommendation = (
+  sunPositions: SunPosition[],
+  flightPath: Waypoint[],
+  timeZone: string = 'UTC',
+  aircraftType?: string,
+  objective: SeatObjective = 'view-sun'
+): SeatRecommendation => {
+  const layout = aircraftType ? getCabinLayout(aircraftType) : undefined;
+  const segments = buildSeatSegments(sunPositions, flightPath, layout);
+  const plan = getSeatPlan(sunPositions, flightPath, timeZone, aircraftType);
+  const minutes = { left: plan.leftMinutes, right: plan.rightMinutes };
+
+  const seats = layout
+    ? { left: describeSideSeating(layout, 'left'), right: describeSideSeating(layout, 'right') }
+    : undefined;
+
+  // Keeping out of the sun: score each side by the share of direct sun that comes in on the other
+  if (objective === 'avoid-sun') {
+    const exposure = getSunExposure(sunPositions, flightPath, timeZone);
+    const direct = exposure.minutes;
+    const total = direct.left + direct.right;
+    const scores = total === 0
+      ? { left: 50, right: 50 }
+      : { left: Math.round(direct.right / total * 100), right: Math.round(direct.left / total * 100) };
+    const side = exposure.shadedSide;
+
+    const factors = [
+      `Direct sun through the windows on the left for ${formatDuration(direct.left)} and on the right for ${formatDuration(direct.right)}`
+    ];
+    let explanation = exposure.explanation;
+    if (side !== 'either') {
+      const shadeDown = exposure.shadeDownPeriods.filter(period => period.side === side);
+      if (shadeDown.length > 0) {
+        factors.push(`Shade still needed on the ${side} ${shadeDown.map(period => `${period.startTimeString} - ${period.endTimeString}`).join(', ')}`);
+      }
+      if (layout) {
+        explanation += ` On the ${layout.name}: ${seats![side].summary}.`;
+      }
+    }
+
+    return {
+      side,
+      confidence: Math.abs(scores.left - scores.right) / 100,
+      scores,
+      minutes,
+      seats,
+      factors,
+      explanation
+    };
+  }
+
+  if (minutes.left + minutes.right === 0) {
+    return {
+      side: 'none',
+      confidence: 0,
+      scores: { left: 0, right: 0 },
+      minutes,
+      seats,
+      factors: ['The sun stays below the horizon, or out of every window\'s view (ahead, behind or overhead), for the whole flight'],
+      explanation: 'No optimal window seat - sun will not be visible during flight'
+    };
+  }
+
+  const weighted = { left: 0, right: 0 };
+  const lowSunMinutes = { left: 0, right: 0 };
+  segments.forEach(segment => {
+    if (segment.side === 'none') return;
+    weighted[segment.side] += segment.minutes * viewingWeight(segment);
+    if (segment.elevation < LOW_SUN_ELEVATION) {
+      lowSunMinutes[segment.side] += segment.minutes;
+    }
+  });
+
+  const total = weighted.left + weighted.right;
+  const scores = {
+    left: Math.round(weighted.left / total * 100),
+    right: Math.round(weighted.right / total * 100)
+  };
+  const margin = Math.abs(scores.left - scores.right);
+  const side: SeatRecommendation['side'] = margin < EITHER_SIDE_MARGIN
+    ? 'either'
+    : scores.left > scores.right ? 'left' : 'right';
+
+  // Where the sun sits on each side; averaging across both would cancel out towards the nose
+  const sideBearings: Partial<Record<SunSide, SideBearing>> = {};
+  (['left', 'right'] as SunSide[]).forEach(bearingSide => {
+    const onSide = segments.filter(segment => segment.side === bearingSide);
+    if (onSide.length === 0) return;
+    const bearing = Math.round(circularMean(onSide.map(s => s.relativeBearing), onSide.map(s => s.minutes)));
+    sideBearings[bearingSide] = { relativeBearing: bearing, clockPosition: toClockPosition(bearing) };
+  });
+  const relativeBearing = side === 'either' ? undefined : sideBearings[side]?.relativeBearing;
+  const clockPosition = side === 'either' ? undefined : sideBearings[side]?.clockPosition;
+
+  const factors: string[] = [
+    `Sun on the left for ${formatDuration(minutes.left)} and on the right for ${formatDuration(minutes.right)}`
+  ];
+  const lowSide: SunSide = lowSunMinutes.left >= lowSunMinutes.right ? 'left' : 'right';
+  if (lowSunMinutes[lowSide] > 0) {
+    factors.push(`Low sun (sunrise/sunset light) on the ${lowSide} for ${formatDuration(lowSunMinutes[lowSide])}`);
+  }
+  if (side === 'either') {
+    factors.push(`Sun mostly at ${sideBearings.left!.clockPosition} o'clock on the left and ${sideBearings.right!.clockPosition} o'clock on the right`);
+  } else {
+    factors.push(`Sun mostly at ${clockPosition} o'clock`);
   }
+  const switches = plan.phases.filter((phase, i) => i > 0 && phase.side !== 'none' && phase.side !== plan.phases[i - 1].side);
+  if (switches.length > 0) {
+    factors.push(`Sun changes side at ${switches.map(phase => phase.startTimeString).join(', ')}`);
+  }
+
+  let explanation = side === 'either'
+    ? `Either side works: the sun is visible on both sides for a similar share of the flight (left ${scores.left}, right ${scores.right}).`
+    : `Sit on the ${side.toUpperCase()} side: the sun is there for ${formatDuration(minutes[side])}, mostly at ${clockPosition} o'clock (score ${scores[side]} vs ${scores[side === 'left' ? 'right' : 'left']}).`;
+  // Rank rows on each side by how much of that side's sun they see past the wing
+  let rows: Record<SunSide, RowRanking[]> | undefined;
+  let bestRows: string | undefined;
+  let position: RowPosition | undefined;
+  if (layout) {
+    const rank = (rankSide: SunSide) => rankRows(layout, rankSide, segments
+      .filter(segment => segment.side === rankSide)
+      .map(segment => ({
+        relativeBearing: segment.relativeBearing,
+        elevation: segment.apparentElevation,
+        weight: segment.minutes * viewingWeight(segment)
+      })));
+    rows = { left: rank('left'), right: rank('right') };
+
+    if (side !== 'either') {
+      const ranked = rows[side];
+      const best = ranked.filter(row => row.clearPercent >= ranked[0].clearPercent - BEST_ROW_MARGIN).map(row => row.row);
+      bestRows = formatRowRanges(best.sort((a, b) => a - b));
+      position = getRowPosition(layout, best);
+      explanation += ` On the ${layout.name}: ${seats![side].summary}.`;
+      if (position === 'forward' || position === 'rear') {
+        explanation += ` Best from ${position} ${side}: rows ${bestRows}.`;
+      } else if (position === 'mixed') {
+        explanation += ` Rows ${bestRows} see the most of it.`;
+      }
+    }
+  }
+
+  return {
+    side,
+    confidence: Math.round(margin) / 100,
+    scores,
+    minutes,
+    relativeBearing,
+    clockPosition,
+    sideBearings,
+    position,
+    seats,
+    rows,
+    bestRows,
+    factors,
+    explanation
+  };
+};
+
+/**
+ * Whether direct sunlight comes in through the windows on the sun's side:
+ * the sun is above the visible horizon and not too far off the window's normal
+ */
+const isDirectSun = (segment: SeatSegment): boolean => {
+  const elevation = Math.max(segment.apparentElevation, 0) * Math.PI / 180;
+  const incidence = Math.cos(elevation) * Math.abs(Math.sin(segment.relativeBearing * Math.PI / 180));
+  return segment.elevation > 0 && incidence >= MIN_GLARE_COSINE;
+};
+
+/**
+ * Direct-sun exposure on each side, the shaded side to sit on, and when the
+ * window shade needs to be down (for sleeping or working without glare)
+ */
+export const getSunExposure = (
+  sunPositions: SunPosition[],
+  flightPath: Waypoint[],
+  timeZone: string = 'UTC'
+): SunExposure => {
+  const segments = buildSeatSegments(sunPositions, flightPath).map(segment => ({
+    ...segment,
+    sunSide: isDirectSun(segment) ? (segment.relativeBearing >= 0 ? 'right' : 'left') as SunSide : undefined
+  }));
+
+  const minutes = { left: 0, right: 0 };
+  segments.forEach(segment => {
+    if (segment.sunSide) minutes[segment.sunSide] += segment.minutes;
+  });
+
+  // Consecutive sunny segments on one side, bridging gaps too short to raise the shade
+  const periods: { side: SunSide; start: Date; end: Date; minutes: number }[] = [];
+  (['left', 'right'] as SunSide[]).forEach(side => {
+    segments.filter(segment => segment.sunSide === side).forEach(segment => {
+      const last = [...periods].reverse().find(period => period.side === side);
+      if (last && segment.start.getTime() - last.end.getTime() < MIN_PHASE_MINUTES * 60000) {
+        last.end = segment.end;
+        last.minutes += segment.minutes;
+      } else {
+        periods.push({ side, start: segment.start, end: segment.end, minutes: segment.minutes });
+      }
+    });
+  });
 
-  const startPoint = flightPath[0];
-  const endPoint = flightPath[flightPath.length - 1];
-  const flightBearing = calculateBearing(startPoint.lat, startPoint.lon, endPoint.lat, endPoint.lon);
-
-  // Calculate average azimuth during visible periods
-  const avgAzimuth = visibleSunPositions.reduce(
-    (sum, pos) => sum + pos.azimuth, 
-    0
-  ) / visibleSunPositions.length;
-
-  // Normalize azimuth to 0-360 degrees
-  const normalizedSunAzimuth = ((avgAzimuth % 360) + 360) % 360;
-
-  // Calculate relative sun position based on flight direction
-  let relativeSunPosition = normalizedSunAzimuth - flightBearing;
-  if (relativeSunPosition < 0) relativeSunPosition += 360;
-  if (relativeSunPosition > 360) relativeSunPosition -= 360;
-
-  // Debug logging (disabled for production)
-  // console.log('=== SEAT RECOMMENDATION DEBUG ===');
-  // console.log('Flight path:', `${startPoint.lat.toFixed(4)},${startPoint.lon.toFixed(4)} → ${endPoint.lat.toFixed(4)},${endPoint.lon.toFixed(4)}`);
-  // console.log('Flight bearing (degrees):', flightBearing.toFixed(1));
-  // console.log('Average sun azimuth:', avgAzimuth.toFixed(1));
-  // console.log('Normalized sun azimuth:', normalizedSunAzimuth.toFixed(1));
-  // console.log('Relative sun position:', relativeSunPosition.toFixed(1));
-
-  // Determine seat recommendation based on relative sun position
-  // CORRECTED LOGIC: 
-  // If sun is on the right side of flight direction (0-180 degrees relative), recommend LEFT window (to look right at sun)
-  // If sun is on the left side of flight direction (180-360 degrees relative), recommend RIGHT window (to look left at sun)
-  
-  if (relativeSunPosition >= 0 && relativeSunPosition <= 180) {
-    // console.log('Recommendation: LEFT (sun is', relativeSunPosition.toFixed(1), 'degrees to the right of flight direction - sit on left to look right at sun)');
-    return 'left'; // Sit on left side to look right toward the sun
+  const shadeDownPeriods: ShadePeriod[] = periods
+    .filter(period => period.minutes >= MIN_PHASE_MINUTES)
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .map(period => {
+      const startTimeString = formatClockTime(period.start, timeZone);
+      const endTimeString = formatClockTime(period.end, timeZone);
+      const side = period.side === 'left' ? 'Left' : 'Right';
+      return {
+        side: period.side,
+        start: period.start.toISOString(),
+        end: period.end.toISOString(),
+        startTimeString,
+        endTimeString,
+        minutes: Math.round(period.minutes),
+        description: `${side} side: keep the shade down ${startTimeString} - ${endTimeString} (${formatDuration(period.minutes)})`
+      };
+    });
+
+  const total = minutes.left + minutes.right;
+  const shadedSide: SunExposure['shadedSide'] = total === 0 || Math.abs(minutes.left - minutes.right) / total * 100 < EITHER_SIDE_MARGIN
+    ? 'either'
+    : minutes.left < minutes.right ? 'left' : 'right';
+
+  let explanation: string;
+  if (total === 0) {
+    explanation = 'Either side works: the sun does not shine in through the windows during this flight.';
+  } else if (shadedSide === 'either') {
+    explanation = `Either side: direct sun comes in on the left for ${formatDuration(minutes.left)} and on the right for ${formatDuration(minutes.right)}.`;
   } else {
-    // console.log('Recommendation: RIGHT (sun is', (360 - relativeSunPosition).toFixed(1), 'degrees to the left of flight direction - sit on right to look left at sun)');
-    return 'right'; // Sit on right side to look left toward the sun
+    const sunnySide = shadedSide === 'left' ? 'right' : 'left';
+    explanation = `Sit on the ${shadedSide.toUpperCase()} side to stay out of the sun: direct sun comes in there for ${formatDuration(minutes[shadedSide])}, against ${formatDuration(minutes[sunnySide])} on the ${sunnySide}.`;
   }
-}; 
\ No newline at end of file
+
+  return {
+    shadedSide,
+    minutes: { left: Math.round(minutes.left), right: Math.round(minutes.right) },
+    shadeDownPeriods,
+    explanation
+  };
+};
+
+/**
+ * Side of the aircraft to sit on for the sun: 'left' / 'right', or an explanation
+ * when there is no clear answer (legacy form of getScoredSeatRecommendation)
+ */
+export const getSeatRecommendation = (sunPositions: SunPosition[], flightPath: Waypoint[]): string => {
+  if (flightPath.length < 2) {
+    return 'Unable to determine flight direction';
+  }
+
+  const recommendation = getScoredSeatRecommendation(sunPositions, flightPath);
+  return recommendation.side === 'left' || recommendation.side === 'right'
+    ? recommendation.side
+    : recommendation.explanation;
+};
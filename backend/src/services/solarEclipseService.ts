@@ -0,0 +1,319 @@
+import SunCalc from 'suncalc';
+import eclipseData from '../data/solarEclipses.json';
+import { getSunVisibility, toCompassAzimuth } from './sunPositionService';
+import { PositionAtTime, headingAt } from './sunEventService';
+import { CabinLayout, getSideCoverage } from './aircraftCabinService';
+import { SunSide, formatDuration, normalizeRelativeBearing } from './seatRecommendationService';
+import { LocalTimes, formatClockTime, toLocalTimes } from './timeZoneService';
+
+/**
+ * Besselian elements of a solar eclipse (NASA/Espenak conventions): polynomials in
+ * hours of Terrestrial Time from t0, lengths in earth equatorial radii, angles in degrees
+ */
+export interface BesselianElements {
+  date: string;
+  type: 'total' | 'annular' | 'partial'; // hybrid eclipses are listed as total
+  greatestEclipse: string;               // UTC
+  t0: string;                            // TT instant the polynomials are centred on
+  deltaT: number;                        // TT − UT in seconds
+  x: number[];
+  y: number[];
+  d: number[];
+  mu: number[];
+  l1: number[];                          // penumbral shadow radius on the fundamental plane
+  l2: number[];                          // umbral radius (negative for a total eclipse)
+  tanF1: number;
+  tanF2: number;
+}
+
+export type EclipseView = 'partial' | 'total' | 'annular';
+
+export interface LocalEclipse {
+  view: EclipseView | 'none';
+  magnitude: number;   // fraction of the sun's diameter covered
+  obscuration: number; // fraction of the sun's disc covered
+}
+
+export interface EclipseContact {
+  type: 'partial-start' | 'partial-end' | 'central-start' | 'central-end';
+  time: LocalTimes;
+  timeString: string;
+  progressPercent: number;
+}
+
+export interface FlightEclipse {
+  date: string;
+  eclipseType: BesselianElements['type'];
+  view: EclipseView;         // best the flight gets: inside the umbra/antumbra or only the penumbra
+  contacts: EclipseContact[]; // entering and leaving the shadows with the sun in view, in order
+  centralSeconds: number;    // totality or annularity seen from the aircraft
+  maximum: {
+    time: LocalTimes;
+    timeString: string;
+    progressPercent: number;
+    lat: number;
+    lon: number;
+    magnitude: number;
+    obscuration: number;
+    sunElevation: number;    // apparent, from the aircraft's horizontal plane
+    relativeBearing: number; // sun off the nose, + right / − left
+    side: SunSide;
+    description: string;     // which windows see it
+  };
+}
+
+export interface EclipseAnalysis {
+  eclipses: FlightEclipse[];
+  summary: string[];
+}
+
+// Besselian elements for the solar eclipses of 2024-2050, fitted to a precise
+// ephemeris over ±3 hours around greatest eclipse
+const SOLAR_ECLIPSES: BesselianElements[] = eclipseData as BesselianElements[];
+
+// The polynomials hold to about this far from t0
+const ELEMENT_VALIDITY_MS = 3 * 60 * 60 * 1000;
+
+// Earth flattening (WGS84 b/a) and equatorial radius for the observer's geocentric coordinates
+const EARTH_AXIS_RATIO = 0.99664719;
+const EARTH_RADIUS_M = 6378137;
+
+const SEARCH_STEP_MS = 60 * 1000;
+const TIME_TOLERANCE_MS = 1000;
+
+const rad = Math.PI / 180;
+
+const VIEW_TEXT: Record<EclipseView, string> = {
+  total: 'total eclipse',
+  annular: 'annular "ring of fire" eclipse',
+  partial: 'partial eclipse'
+};
+
+const polynomial = (coefficients: number[], t: number): number =>
+  coefficients.reduce((sum, coefficient, power) => sum + coefficient * Math.pow(t, power), 0);
+
+/**
+ * Fraction of the sun's disc covered by the moon for a magnitude and moon/sun diameter ratio
+ */
+const getObscuration = (magnitude: number, ratio: number): number => {
+  if (magnitude <= 0) return 0;
+  const separation = 1 + ratio - 2 * magnitude; // centre distance in sun radii
+  if (separation <= Math.abs(1 - ratio)) return ratio >= 1 ? 1 : ratio * ratio;
+
+  const sunAngle = Math.acos((separation * separation + 1 - ratio * ratio) / (2 * separation));
+  const moonAngle = Math.acos((separation * separation + ratio * ratio - 1) / (2 * separation * ratio));
+  const overlap = sunAngle + ratio * ratio * moonAngle -
+    0.5 * Math.sqrt((-separation + 1 + ratio) * (separation + 1 - ratio) * (separation - 1 + ratio) * (separation + 1 + ratio));
+  return overlap / Math.PI;
+};
+
+/**
+ * Local circumstances of an eclipse for an observer at a given instant
+ */
+export const getLocalEclipse = (
+  elements: BesselianElements,
+  time: Date,
+  lat: number,
+  lon: number,
+  altitudeM: number = 0
+): LocalEclipse => {
+  const t = (time.getTime() + elements.deltaT * 1000 - new Date(elements.t0).getTime()) / (60 * 60 * 1000);
+  const x = polynomial(elements.x, t);
+  const y = polynomial(elements.y, t);
+  const d = polynomial(elements.d, t) * rad;
+  const l1 = polynomial(elements.l1, t);
+  const l2 = polynomial(elements.l2, t);
+
+  // Observer on the fundamental plane; the hour angle takes the elements' ephemeris time back to UT
+  const hourAngle = (polynomial(elements.mu, t) + lon - 0.00417807 * elements.deltaT) * rad;
+  const u = Math.atan(EARTH_AXIS_RATIO * Math.tan(lat * rad));
+  const rhoSin = EARTH_AXIS_RATIO * Math.sin(u) + altitudeM / EARTH_RADIUS_M * Math.sin(lat * rad);
+  const rhoCos = Math.cos(u) + altitudeM / EARTH_RADIUS_M * Math.cos(lat * rad);
+
+  const xi = rhoCos * Math.sin(hourAngle);
+  const eta = rhoSin * Math.cos(d) - rhoCos * Math.cos(hourAngle) * Math.sin(d);
+  const zeta = rhoSin * Math.sin(d) + rhoCos * Math.cos(hourAngle) * Math.cos(d);
+
+  const penumbra = l1 - zeta * elements.tanF1;
+  const umbra = l2 - zeta * elements.tanF2;
+  const distance = Math.hypot(x - xi, y - eta);
+
+  if (distance >= penumbra) return { view: 'none', magnitude: 0, obscuration: 0 };
+
+  const magnitude = (penumbra - distance) / (penumbra + umbra);
+  const ratio = (penumbra - umbra) / (penumbra + umbra);
+  const view: EclipseView = distance < Math.abs(umbra) ? (umbra < 0 ? 'total' : 'annular') : 'partial';
+
+  return { view, magnitude, obscuration: getObscuration(magnitude, ratio) };
+};
+
+/**
+ * Eclipse seen from the aircraft: 'none' unless the sun is above the visible horizon
+ */
+const eclipseFromCabin = (elements: BesselianElements, positionAt: PositionAtTime, ms: number): LocalEclipse => {
+  const position = positionAt(new Date(ms));
+  const sunElevation = SunCalc.getPosition(position.time, position.lat, position.lon).altitude / rad;
+  if (getSunVisibility(sunElevation, position.altitude).elevationAboveHorizon <= 0) {
+    return { view: 'none', magnitude: 0, obscuration: 0 };
+  }
+  return getLocalEclipse(elements, position.time, position.lat, position.lon, position.altitude);
+};
+
+const shadowOf = (eclipse: LocalEclipse): 'none' | 'partial' | 'central' =>
+  eclipse.view === 'none' ? 'none' : eclipse.view === 'partial' ? 'partial' : 'central';
+
+/**
+ * One eclipse along the flight: shadow contacts bisected to a second, and the
+ * moment of greatest obscuration
+ */
+const followEclipse = (
+  elements: BesselianElements,
+  positionAt: PositionAtTime,
+  start: number,
+  end: number,
+  originTimeZone: string,
+  destinationTimeZone: string,
+  cabinLayout?: CabinLayout
+): FlightEclipse | undefined => {
+  const contacts: EclipseContact[] = [];
+  const addContact = (type: EclipseContact['type'], ms: number) => {
+    const time = new Date(ms);
+    contacts.push({
+      type,
+      time: toLocalTimes(time, originTimeZone, destinationTimeZone),
+      timeString: formatClockTime(time, originTimeZone),
+      progressPercent: Math.round(positionAt(time).progressPercent)
+    });
+  };
+
+  const first = eclipseFromCabin(elements, positionAt, start);
+  let best = { ms: start, magnitude: first.magnitude };
+  let bestView = first.view;
+  let previousMs = start;
+  let previous = shadowOf(first);
+  let centralSince = previous === 'central' ? start : undefined;
+  let centralMs = 0;
+
+  while (previousMs < end) {
+    const currentMs = Math.min(previousMs + SEARCH_STEP_MS, end);
+    const eclipse = eclipseFromCabin(elements, positionAt, currentMs);
+    const current = shadowOf(eclipse);
+
+    if (eclipse.magnitude > best.magnitude) best = { ms: currentMs, magnitude: eclipse.magnitude };
+    if (eclipse.view !== 'none' && (bestView === 'none' || bestView === 'partial')) bestView = eclipse.view;
+
+    if (current !== previous) {
+      let lo = previousMs;
+      let hi = currentMs;
+      while (hi - lo > TIME_TOLERANCE_MS) {
+        const mid = (lo + hi) / 2;
+        if (shadowOf(eclipseFromCabin(elements, positionAt, mid)) === previous) lo = mid; else hi = mid;
+      }
+      const at = (lo + hi) / 2;
+      if (previous === 'none') addContact('partial-start', at);
+      if (previous === 'central') {
+        addContact('central-end', at);
+        centralMs += at - centralSince!;
+      }
+      if (current === 'central') {
+        addContact('central-start', at);
+        centralSince = at;
+      }
+      if (current === 'none') addContact('partial-end', at);
+    }
+
+    previousMs = currentMs;
+    previous = current;
+  }
+  if (previous === 'central') centralMs += end - centralSince!;
+
+  if (bestView === 'none') return undefined;
+
+  // Refine the deepest point (largest magnitude) within the scan step either side
+  let lo = Math.max(start, best.ms - SEARCH_STEP_MS);
+  let hi = Math.min(end, best.ms + SEARCH_STEP_MS);
+  while (hi - lo > TIME_TOLERANCE_MS) {
+    const left = lo + (hi - lo) / 3;
+    const right = hi - (hi - lo) / 3;
+    if (eclipseFromCabin(elements, positionAt, left).magnitude < eclipseFromCabin(elements, positionAt, right).magnitude) lo = left; else hi = right;
+  }
+
+  const time = new Date((lo + hi) / 2);
+  const position = positionAt(time);
+  const eclipse = eclipseFromCabin(elements, positionAt, time.getTime());
+  const sun = SunCalc.getPosition(time, position.lat, position.lon);
+  const sunElevation = getSunVisibility(sun.altitude / rad, position.altitude).apparentElevation;
+  const heading = headingAt(positionAt, time) ?? 0;
+  const relativeBearing = normalizeRelativeBearing(toCompassAzimuth(sun.azimuth / rad) - heading);
+  const coverage = getSideCoverage(cabinLayout, relativeBearing, sunElevation);
+
+  return {
+    date: elements.date,
+    eclipseType: elements.type,
+    view: bestView,
+    contacts,
+    centralSeconds: Math.round(centralMs / 1000),
+    maximum: {
+      time: toLocalTimes(time, originTimeZone, destinationTimeZone),
+      timeString: formatClockTime(time, originTimeZone),
+      progressPercent: Math.round(position.progressPercent),
+      lat: position.lat,
+      lon: position.lon,
+      magnitude: Math.round(eclipse.magnitude * 1000) / 1000,
+      obscuration: Math.round(eclipse.obscuration * 1000) / 1000,
+      sunElevation: Math.round(sunElevation * 10) / 10,
+      relativeBearing: Math.round(relativeBearing),
+      side: coverage.side,
+      description: coverage.description
+    }
+  };
+};
+
+/**
+ * Solar eclipses the flight passes through while the sun is in view, checking the
+ * moving aircraft against the bundled Besselian elements
+ */
+export const analyzeSolarEclipses = (
+  positionAt: PositionAtTime,
+  start: Date,
+  end: Date,
+  originTimeZone: string,
+  destinationTimeZone: string,
+  cabinLayout?: CabinLayout
+): EclipseAnalysis => {
+  const eclipses = SOLAR_ECLIPSES
+    .filter(elements => {
+      const t0 = new Date(elements.t0).getTime() - elements.deltaT * 1000;
+      return t0 + ELEMENT_VALIDITY_MS >= start.getTime() && t0 - ELEMENT_VALIDITY_MS <= end.getTime();
+    })
+    .map(elements => {
+      const t0 = new Date(elements.t0).getTime() - elements.deltaT * 1000;
+      return followEclipse(
+        elements,
+        positionAt,
+        Math.max(start.getTime(), t0 - ELEMENT_VALIDITY_MS),
+        Math.min(end.getTime(), t0 + ELEMENT_VALIDITY_MS),
+        originTimeZone,
+        destinationTimeZone,
+        cabinLayout
+      );
+    })
+    .filter((eclipse): eclipse is FlightEclipse => eclipse !== undefined);
+
+  const summary: string[] = [];
+  eclipses.forEach(eclipse => {
+    const { maximum } = eclipse;
+    const percent = Math.floor(maximum.obscuration * 100);
+    if (eclipse.view === 'partial') {
+      summary.push(`🌘 Partial solar eclipse: up to ${percent}% of the sun covered at ${maximum.timeString} (${maximum.progressPercent}% into the flight), sun ${maximum.description}`);
+    } else {
+      const duration = eclipse.centralSeconds < 120 ? `${eclipse.centralSeconds}s` : formatDuration(eclipse.centralSeconds / 60);
+      summary.push(`🌑 The flight crosses the path of the ${VIEW_TEXT[eclipse.view]} for ${duration}, greatest at ${maximum.timeString} (${maximum.progressPercent}% into the flight), sun ${maximum.description}`);
+    }
+  });
+  if (eclipses.length > 0) {
+    summary.push('🕶️ Never look at the partly covered sun without eclipse glasses');
+  }
+
+  return { eclipses, summary };
+};
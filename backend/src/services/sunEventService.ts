@@ -0,0 +1,308 @@
+import SunCalc from 'suncalc';
+import { FlightPhase } from './aircraftPerformanceService';
+import { SunVisibility, getSunVisibility } from './sunPositionService';
+import { calculateBearing } from './seatRecommendationService';
+
+export interface AircraftPosition {
+  time: Date;
+  lat: number;
+  lon: number;
+  progressPercent: number;
+  altitude: number; // metres
+  phase: FlightPhase;
+}
+
+/**
+ * Where the aircraft is at any instant of the flight (planned profile or recorded track)
+ */
+export type PositionAtTime = (time: Date) => AircraftPosition;
+
+export interface SunSample extends AircraftPosition, SunVisibility {
+  sunElevation: number; // geometric elevation
+  sunAzimuth: number;
+}
+
+export type SunEventType =
+  | 'sunrise' | 'sunset'
+  | 'ground-sunrise' | 'ground-sunset'
+  | 'golden-hour-start' | 'golden-hour-end'
+  | 'blue-hour-start' | 'blue-hour-end'
+  | 'civil-dawn' | 'civil-dusk'
+  | 'nautical-dawn' | 'nautical-dusk'
+  | 'astronomical-dawn' | 'astronomical-dusk'
+  | 'max-elevation'
+  | 'midnight-sun-start' | 'midnight-sun-end'
+  | 'polar-night-start' | 'polar-night-end';
+
+// The ground below has no sunrise or sunset that day
+export type PolarCondition = 'midnight-sun' | 'polar-night';
+
+// 'elevation' is geometric (sea-level horizon), 'elevationAboveHorizon' is what the cabin sees
+export type SunMetric = 'elevation' | 'elevationAboveHorizon';
+
+export interface SunThreshold {
+  metric: SunMetric;
+  value: number;            // degrees
+  rising: SunEventType;     // event when the sun climbs through the value
+  setting: SunEventType;    // event when it drops through it
+}
+
+export interface SunEventPoint extends SunSample {
+  type: SunEventType;
+}
+
+export interface SunInterval {
+  start: Date;
+  end: Date;
+  minutes: number;
+  midpoint: SunSample; // representative sample; no threshold is crossed inside the interval
+}
+
+export interface PolarSegment {
+  type: PolarCondition;
+  start: SunSample; // departure if the flight starts inside the segment
+  end: SunSample;   // arrival if it ends inside it
+  minutes: number;
+}
+
+// Coarse scan step used to bracket crossings; the sun moves at most ~1.5° in this time
+const SEARCH_STEP_MS = 5 * 60 * 1000;
+const TIME_TOLERANCE_MS = 1000;
+const GOLDEN_RATIO = (Math.sqrt(5) - 1) / 2;
+
+/**
+ * Sun position and visibility seen from the aircraft at one point of the flight
+ */
+export const sampleSun = (position: AircraftPosition): SunSample => {
+  const sunPos = SunCalc.getPosition(position.time, position.lat, position.lon);
+  const sunElevation = sunPos.altitude * (180 / Math.PI);
+
+  return {
+    ...position,
+    sunElevation,
+    sunAzimuth: sunPos.azimuth * (180 / Math.PI),
+    ...getSunVisibility(sunElevation, position.altitude)
+  };
+};
+
+const metricValue = (sample: SunSample, metric: SunMetric): number =>
+  metric === 'elevation' ? sample.sunElevation : sample.elevationAboveHorizon;
+
+const sampleAt = (positionAt: PositionAtTime, ms: number): SunSample => sampleSun(positionAt(new Date(ms)));
+
+/**
+ * Samples every SEARCH_STEP_MS from start to end (both included)
+ */
+const scan = (positionAt: PositionAtTime, startMs: number, endMs: number): SunSample[] => {
+  const samples: SunSample[] = [];
+  for (let t = startMs; t < endMs; t += SEARCH_STEP_MS) {
+    samples.push(sampleAt(positionAt, t));
+  }
+  samples.push(sampleAt(positionAt, endMs));
+  return samples;
+};
+
+/**
+ * Bisect a bracket whose ends are in different states, down to about a second
+ */
+const refineChange = <T>(
+  positionAt: PositionAtTime,
+  before: SunSample,
+  after: SunSample,
+  stateOf: (sample: SunSample) => T
+): SunSample => {
+  let lo = before;
+  let hi = after;
+  const loState = stateOf(lo);
+
+  while (hi.time.getTime() - lo.time.getTime() > TIME_TOLERANCE_MS) {
+    const mid = sampleAt(positionAt, (lo.time.getTime() + hi.time.getTime()) / 2);
+    if (stateOf(mid) === loState) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+
+  return sampleAt(positionAt, (lo.time.getTime() + hi.time.getTime()) / 2);
+};
+
+/**
+ * Every crossing of a value between consecutive scan samples, and whether the sun was rising
+ */
+const findCrossings = (
+  positionAt: PositionAtTime,
+  samples: SunSample[],
+  metric: SunMetric,
+  value: number
+): { sample: SunSample; rising: boolean }[] => {
+  const crossings: { sample: SunSample; rising: boolean }[] = [];
+
+  for (let i = 1; i < samples.length; i++) {
+    const prevAbove = metricValue(samples[i - 1], metric) > value;
+    const currAbove = metricValue(samples[i], metric) > value;
+    if (prevAbove === currAbove) continue;
+
+    crossings.push({
+      sample: refineChange(positionAt, samples[i - 1], samples[i], sample => metricValue(sample, metric) > value),
+      rising: currAbove
+    });
+  }
+
+  return crossings;
+};
+
+/**
+ * Local maxima of the sun's elevation while it is visible, refined by golden-section search.
+ * Flying with the sun can stretch or repeat "solar noon", so there may be none or several.
+ */
+const findElevationMaxima = (positionAt: PositionAtTime, samples: SunSample[]): SunEventPoint[] => {
+  const maxima: SunEventPoint[] = [];
+
+  for (let i = 1; i < samples.length - 1; i++) {
+    const rising = samples[i].sunElevation >= samples[i - 1].sunElevation;
+    const falling = samples[i].sunElevation > samples[i + 1].sunElevation;
+    if (!rising || !falling) continue;
+
+    let a = samples[i - 1].time.getTime();
+    let b = samples[i + 1].time.getTime();
+    while (b - a > TIME_TOLERANCE_MS) {
+      const c = b - GOLDEN_RATIO * (b - a);
+      const d = a + GOLDEN_RATIO * (b - a);
+      if (sampleAt(positionAt, c).sunElevation > sampleAt(positionAt, d).sunElevation) {
+        b = d;
+      } else {
+        a = c;
+      }
+    }
+
+    const peak = sampleAt(positionAt, (a + b) / 2);
+    if (peak.elevationAboveHorizon > 0) {
+      maxima.push({ ...peak, type: 'max-elevation' });
+    }
+  }
+
+  return maxima;
+};
+
+/**
+ * Exact times of the given threshold crossings and of the sun's elevation maxima
+ * along the aircraft's path, in chronological order
+ */
+export const findSunEvents = (
+  positionAt: PositionAtTime,
+  start: Date,
+  end: Date,
+  thresholds: SunThreshold[]
+): SunEventPoint[] => {
+  const samples = scan(positionAt, start.getTime(), end.getTime());
+
+  const events = [
+    ...thresholds.flatMap(threshold =>
+      findCrossings(positionAt, samples, threshold.metric, threshold.value).map(({ sample, rising }) => ({
+        ...sample,
+        type: rising ? threshold.rising : threshold.setting
+      }))
+    ),
+    ...findElevationMaxima(positionAt, samples)
+  ];
+
+  return events.sort((a, b) => a.time.getTime() - b.time.getTime());
+};
+
+/**
+ * Cut the flight at every exact crossing of the given values so each interval
+ * lies entirely within one band; used to measure durations without sampling error
+ */
+export const splitByThresholds = (
+  positionAt: PositionAtTime,
+  start: Date,
+  end: Date,
+  metric: SunMetric,
+  values: number[]
+): SunInterval[] => {
+  const samples = scan(positionAt, start.getTime(), end.getTime());
+
+  const cuts = values
+    .flatMap(value => findCrossings(positionAt, samples, metric, value))
+    .map(crossing => crossing.sample.time.getTime());
+  const boundaries = [start.getTime(), ...cuts.sort((a, b) => a - b), end.getTime()];
+
+  const intervals: SunInterval[] = [];
+  for (let i = 1; i < boundaries.length; i++) {
+    const from = boundaries[i - 1];
+    const to = boundaries[i];
+    if (to <= from) continue;
+
+    intervals.push({
+      start: new Date(from),
+      end: new Date(to),
+      minutes: (to - from) / 60000,
+      midpoint: sampleAt(positionAt, (from + to) / 2)
+    });
+  }
+
+  return intervals;
+};
+
+/**
+ * Aircraft heading at an instant, from its position half a minute either side
+ * (undefined while it isn't moving)
+ */
+export const headingAt = (positionAt: PositionAtTime, time: Date): number | undefined => {
+  const before = positionAt(new Date(time.getTime() - 30 * 1000));
+  const after = positionAt(new Date(time.getTime() + 30 * 1000));
+  if (before.lat === after.lat && before.lon === after.lon) return undefined;
+  return calculateBearing(before.lat, before.lon, after.lat, after.lon);
+};
+
+/**
+ * Whether the ground at a position sees midnight sun or polar night on that day
+ */
+export const getPolarCondition = (time: Date, lat: number, lon: number): PolarCondition | undefined => {
+  const times = SunCalc.getTimes(time, lat, lon);
+  if (!isNaN(times.sunrise.getTime()) || !isNaN(times.sunset.getTime())) {
+    return undefined;
+  }
+  return SunCalc.getPosition(times.solarNoon, lat, lon).altitude > 0 ? 'midnight-sun' : 'polar-night';
+};
+
+/**
+ * Stretches of the flight over midnight sun or polar night, with exact entry and exit times
+ */
+export const findPolarSegments = (positionAt: PositionAtTime, start: Date, end: Date): PolarSegment[] => {
+  const samples = scan(positionAt, start.getTime(), end.getTime());
+  const polarOf = (sample: SunSample) => getPolarCondition(sample.time, sample.lat, sample.lon);
+
+  const segments: PolarSegment[] = [];
+  let current: { type: PolarCondition; start: SunSample } | undefined;
+
+  const close = (endSample: SunSample) => {
+    if (!current) return;
+    segments.push({
+      type: current.type,
+      start: current.start,
+      end: endSample,
+      minutes: (endSample.time.getTime() - current.start.time.getTime()) / 60000
+    });
+    current = undefined;
+  };
+
+  const conditions = samples.map(polarOf);
+
+  samples.forEach((sample, i) => {
+    const condition = conditions[i];
+    if (i === 0) {
+      if (condition) current = { type: condition, start: sample };
+      return;
+    }
+    if (condition === conditions[i - 1]) return;
+
+    const boundary = refineChange(positionAt, samples[i - 1], sample, polarOf);
+    close(boundary);
+    if (condition) current = { type: condition, start: boundary };
+  });
+  close(samples[samples.length - 1]);
+
+  return segments;
+};
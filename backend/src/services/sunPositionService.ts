@@ -6,23 +6,97 @@ export interface SunPosition {
   lon: number;
   time: string;
   azimuth: number;
-  elevation: number;
+  elevation: number;             // geometric elevation (sea-level horizon)
+  apparentElevation: number;     // elevation including atmospheric refraction
+  horizonDip: number;            // how far the visible horizon sits below 0° at the aircraft's altitude
+  elevationAboveHorizon: number; // apparent elevation measured from the visible horizon
 }
 
+export interface SunVisibility {
+  apparentElevation: number;
+  horizonDip: number;
+  elevationAboveHorizon: number;
+}
+
+export const EARTH_RADIUS_M = 6371000;
+export const TERRESTRIAL_REFRACTION_K = 0.13; // bends the line of sight to the horizon, flattening the dip
+
+// Sun's angular radius; sunrise/sunset is when the upper limb touches the horizon
+export const SUN_SEMI_DIAMETER = 0.267;
+
+// Conventional sea-level sunrise/sunset elevation (34' refraction + semi-diameter)
+export const GROUND_SUNRISE_ELEVATION = -0.833;
+
+/**
+ * Dip of the visible horizon below the astronomical horizon at a given altitude, in degrees.
+ * About 3.1° at 11 km once terrestrial refraction is included (3.4° purely geometric).
+ */
+export const getHorizonDip = (altitudeM: number): number => {
+  if (altitudeM <= 0) return 0;
+  const effectiveRadius = EARTH_RADIUS_M / (1 - TERRESTRIAL_REFRACTION_K);
+  return Math.acos(effectiveRadius / (effectiveRadius + altitudeM)) * 180 / Math.PI;
+};
+
+/**
+ * Air pressure relative to sea level (ISA troposphere, isothermal above 11 km)
+ */
+const getPressureRatio = (altitudeM: number): number => {
+  const h = Math.max(0, altitudeM);
+  if (h <= 11000) {
+    return Math.pow(1 - 2.25577e-5 * h, 5.25588);
+  }
+  return 0.22336 * Math.exp(-(h - 11000) / 6341.6);
+};
+
+/**
+ * Astronomical refraction in degrees (Saemundsson's formula), scaled by the
+ * air pressure at the observer. Below the astronomical horizon the value is
+ * held at its horizon maximum, which is a reasonable approximation for the
+ * few degrees of dip seen from cruise altitude.
+ */
+export const getAtmosphericRefraction = (trueElevation: number, altitudeM: number = 0): number => {
+  const h = Math.max(trueElevation, -0.5);
+  const arcMinutes = 1.02 / Math.tan((h + 10.3 / (h + 5.11)) * Math.PI / 180);
+  return Math.max(0, arcMinutes / 60) * getPressureRatio(altitudeM);
+};
+
+/**
+ * How the sun appears from an aircraft at a given altitude: refraction lifts it,
+ * horizon dip lets passengers see it while it is still below 0° geometrically
+ */
+export const getSunVisibility = (trueElevation: number, altitudeM: number = 0): SunVisibility => {
+  const apparentElevation = trueElevation + getAtmosphericRefraction(trueElevation, altitudeM);
+  const horizonDip = getHorizonDip(altitudeM);
+
+  return {
+    apparentElevation,
+    horizonDip,
+    elevationAboveHorizon: apparentElevation + horizonDip
+  };
+};
+
+/**
+ * Compass bearing of the sun (0° = north, clockwise) from a SunCalc azimuth in degrees,
+ * which SunCalc measures from south towards west
+ */
+export const toCompassAzimuth = (sunCalcAzimuth: number): number => {
+  return ((sunCalcAzimuth + 180) % 360 + 360) % 360;
+};
+
+/**
+ * Whether any part of the sun's disc is above the visible horizon from the cabin
+ */
+export const isSunVisibleFromCabin = (trueElevation: number, altitudeM: number): boolean => {
+  return getSunVisibility(trueElevation, altitudeM).elevationAboveHorizon > -SUN_SEMI_DIAMETER;
+};
+
 export const calculateSunPositions = (
   waypoints: Waypoint[], 
   departureTime: Date
 ): SunPosition[] => {
-  // Debug logging (can be removed in production)
-  // console.log('=== SUN POSITION CALCULATION DEBUG ===');
-  // console.log('Departure time:', departureTime.toISOString());
-  // console.log('Number of waypoints:', waypoints.length);
-  
-  return waypoints.map((waypoint, index) => {
+  return waypoints.map(waypoint => {
     const timeAtWaypoint = new Date(waypoint.time);
     
-    // console.log(`Waypoint ${index}: ${timeAtWaypoint.toISOString()} at ${waypoint.lat},${waypoint.lon}`);
-    
     // Calculate sun position using SunCalc
     const sunPosition = SunCalc.getPosition(
       timeAtWaypoint,
@@ -32,15 +106,14 @@ export const calculateSunPositions = (
 
     const azimuthDegrees = sunPosition.azimuth * (180 / Math.PI);
     const elevationDegrees = sunPosition.altitude * (180 / Math.PI);
-    
-    // console.log(`  → Sun: azimuth=${azimuthDegrees.toFixed(1)}°, elevation=${elevationDegrees.toFixed(1)}°`);
 
     return {
       lat: waypoint.lat,
       lon: waypoint.lon,
       time: waypoint.time,
       azimuth: azimuthDegrees,
-      elevation: elevationDegrees
+      elevation: elevationDegrees,
+      ...getSunVisibility(elevationDegrees, waypoint.altitude)
     };
   });
 }; 
\ No newline at end of file
@@ -0,0 +1,148 @@
+export interface LocalTimes {
+  utc: string;              // "2025-08-01T12:30:00.000Z"
+  originLocal: string;      // "2025-08-01T18:00:00+05:30"
+  destinationLocal: string; // "2025-08-01T15:30:00+03:00"
+}
+
+// Wall-clock date/time without an offset, e.g. "2025-08-01T18:00", "2025-08-01 18:00:30.250"
+// or just "2025-08-01" (midnight)
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?)?$/;
+
+// Trailing "Z" or "+05:30" / "-0400" style offset
+const EXPLICIT_OFFSET = /(Z|[+-]\d{2}:?\d{2})$/i;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Offset of the given IANA timezone from UTC at a given instant, in minutes
+ */
+export const getTimeZoneOffsetMinutes = (date: Date, timeZone: string): number => {
+  const parts: Record<string, number> = {};
+  getFormatter(timeZone).formatToParts(date).forEach(part => {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  });
+
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  const wholeSeconds = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - wholeSeconds) / 60000);
+};
+
+/**
+ * Whether a date/time string carries its own UTC offset
+ */
+export const hasExplicitOffset = (input: string): boolean => EXPLICIT_OFFSET.test(input.trim());
+
+/**
+ * Interpret a wall-clock date/time ("2025-08-01T18:00", or a date alone for midnight) in an IANA timezone.
+ * Strings that already carry an offset are parsed as-is.
+ * Returns an invalid Date if the input cannot be parsed or names a time that doesn't exist (e.g. 25:99).
+ */
+export const parseLocalDateTime = (input: string, timeZone: string): Date => {
+  const trimmed = input.trim();
+  if (hasExplicitOffset(trimmed)) {
+    return new Date(trimmed);
+  }
+
+  const match = LOCAL_DATE_TIME.exec(trimmed);
+  if (!match) {
+    return new Date(NaN);
+  }
+
+  const [year, month, day, hour, minute, second] = match.slice(1, 7).map(part => part ? parseInt(part, 10) : 0);
+  const fraction = match[7];
+
+  // Date.UTC would roll an impossible time like 25:99 over into the next day
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth || hour > 23 || minute > 59 || second > 59) {
+    return new Date(NaN);
+  }
+
+  const wallClock = Date.UTC(
+    year,
+    month - 1,
+    day,
+    hour,
+    minute,
+    second,
+    fraction ? Math.round(parseFloat(`0.${fraction}`) * 1000) : 0
+  );
+
+  // First guess uses the offset at the wall-clock instant, then correct once
+  // in case that guess landed on the other side of a DST transition
+  const firstOffset = getTimeZoneOffsetMinutes(new Date(wallClock), timeZone);
+  let result = wallClock - firstOffset * 60000;
+  const secondOffset = getTimeZoneOffsetMinutes(new Date(result), timeZone);
+  if (secondOffset !== firstOffset) {
+    result = wallClock - secondOffset * 60000;
+  }
+
+  return new Date(result);
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * ISO 8601 representation of an instant in a given timezone, e.g. "2025-08-01T18:00:00+05:30"
+ */
+export const formatInTimeZone = (date: Date, timeZone: string): string => {
+  const offset = getTimeZoneOffsetMinutes(date, timeZone);
+  const local = new Date(date.getTime() + offset * 60000);
+  const sign = offset >= 0 ? '+' : '-';
+  const absOffset = Math.abs(offset);
+
+  return `${local.getUTCFullYear()}-${pad(local.getUTCMonth() + 1)}-${pad(local.getUTCDate())}` +
+    `T${pad(local.getUTCHours())}:${pad(local.getUTCMinutes())}:${pad(local.getUTCSeconds())}` +
+    `${sign}${pad(Math.floor(absOffset / 60))}:${pad(absOffset % 60)}`;
+};
+
+/**
+ * Short clock time in a given timezone for summaries, e.g. "18:00 GMT+5:30"
+ */
+export const formatClockTime = (date: Date, timeZone: string): string => {
+  return date.toLocaleTimeString('en-GB', {
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone,
+    timeZoneName: 'short'
+  });
+};
+
+/**
+ * The same instant in UTC, origin-local and destination-local time
+ */
+export const toLocalTimes = (date: Date, originTimeZone: string, destinationTimeZone: string): LocalTimes => ({
+  utc: date.toISOString(),
+  originLocal: formatInTimeZone(date, originTimeZone),
+  destinationLocal: formatInTimeZone(date, destinationTimeZone)
+});
+
+/**
+ * Entries timed by a UTC string (path waypoints, sun and moon positions), each with
+ * the same instant in origin-local and destination-local time alongside
+ */
+export const withLocalTimes = <T extends { time: string }>(
+  entries: T[],
+  originTimeZone: string,
+  destinationTimeZone: string
+): (T & { times: LocalTimes })[] =>
+  entries.map(entry => ({ ...entry, times: toLocalTimes(new Date(entry.time), originTimeZone, destinationTimeZone) }));
@@ -0,0 +1,305 @@
+import { Waypoint } from './flightPathService';
+import { FlightPhase } from './aircraftPerformanceService';
+
+export type TrackFormat = 'gpx' | 'kml' | 'csv';
+
+export interface TrackPoint {
+  lat: number;
+  lon: number;
+  time: Date;
+  altitude?: number; // metres
+}
+
+export interface ImportedTrack {
+  format: TrackFormat;
+  pointCount: number;   // points found in the file
+  validPointCount: number; // of those, with a usable position and a distinct timestamp
+  points: TrackPoint[]; // time-ordered, de-duplicated, thinned to MAX_TRACK_POINTS
+}
+
+const MAX_TRACK_POINTS = 500;
+const FEET_TO_METRES = 0.3048;
+const GROUND_THRESHOLD_M = 150; // above field elevation counts as airborne
+
+/**
+ * Guess the track format from the file contents
+ */
+export const detectTrackFormat = (content: string): TrackFormat => {
+  const head = content.trimStart().slice(0, 2000).toLowerCase();
+  if (head.includes('<gpx')) return 'gpx';
+  if (head.includes('<kml')) return 'kml';
+  return 'csv';
+};
+
+/**
+ * Parse an uploaded GPX, KML or ADS-B CSV track into time-ordered points
+ */
+export const parseTrack = (content: string, format?: TrackFormat): ImportedTrack => {
+  const trackFormat = format || detectTrackFormat(content);
+
+  let points: TrackPoint[];
+  switch (trackFormat) {
+    case 'gpx':
+      points = parseGpx(content);
+      break;
+    case 'kml':
+      points = parseKml(content);
+      break;
+    case 'csv':
+      points = parseCsv(content);
+      break;
+    default:
+      throw new Error(`Unsupported track format: ${trackFormat}`);
+  }
+
+  const valid = points
+    .filter(p => isFinite(p.lat) && isFinite(p.lon) && Math.abs(p.lat) <= 90 && Math.abs(p.lon) <= 180)
+    .filter(p => !isNaN(p.time.getTime()))
+    .sort((a, b) => a.time.getTime() - b.time.getTime())
+    .filter((p, i, all) => i === 0 || p.time.getTime() !== all[i - 1].time.getTime());
+
+  if (valid.length < 2) {
+    throw new Error(`Track must contain at least two timestamped positions (found ${valid.length})`);
+  }
+
+  return {
+    format: trackFormat,
+    pointCount: points.length,
+    validPointCount: valid.length,
+    points: thinTrack(valid, MAX_TRACK_POINTS)
+  };
+};
+
+/**
+ * Convert imported points to the flight path representation used by the other services.
+ * Phases are inferred from altitude: on the ground before/after the flight is taxi,
+ * a sustained vertical rate above 500 ft/min is climb or descent, anything else cruise.
+ */
+export const trackToWaypoints = (points: TrackPoint[]): Waypoint[] => {
+  const hasAltitude = points.some(point => point.altitude !== undefined);
+  const altitudes = fillAltitudes(points);
+  const groundLevel = Math.min(altitudes[0], altitudes[altitudes.length - 1]);
+
+  const airborne = altitudes.map(altitude => altitude - groundLevel > GROUND_THRESHOLD_M);
+  const firstAirborne = airborne.indexOf(true);
+  const lastAirborne = airborne.lastIndexOf(true);
+
+  return points.map((point, i) => {
+    let phase: FlightPhase = 'cruise';
+
+    if (hasAltitude && firstAirborne >= 0) {
+      if (i < firstAirborne) {
+        phase = 'taxi-out';
+      } else if (i > lastAirborne) {
+        phase = 'taxi-in';
+      } else {
+        const prev = points[Math.max(0, i - 1)];
+        const next = points[Math.min(points.length - 1, i + 1)];
+        const minutes = (next.time.getTime() - prev.time.getTime()) / 60000;
+        const climbFpm = minutes > 0
+          ? (altitudes[Math.min(points.length - 1, i + 1)] - altitudes[Math.max(0, i - 1)]) / FEET_TO_METRES / minutes
+          : 0;
+        if (climbFpm > 500) phase = 'climb';
+        else if (climbFpm < -500) phase = 'descent';
+      }
+    }
+
+    return {
+      lat: point.lat,
+      lon: point.lon,
+      time: point.time.toISOString(),
+      altitude: altitudes[i],
+      phase
+    };
+  });
+};
+
+/**
+ * Carry the last known altitude over gaps (leading gaps take the first known value, 0 m if none)
+ */
+const fillAltitudes = (points: TrackPoint[]): number[] => {
+  const altitudes = points.map(point => point.altitude);
+  let lastKnown = altitudes.find(altitude => altitude !== undefined) ?? 0;
+
+  return altitudes.map(altitude => {
+    if (altitude !== undefined) {
+      lastKnown = altitude;
+    }
+    return lastKnown;
+  });
+};
+
+/**
+ * Keep every n-th point (always keeping the first and last) so long ADS-B logs stay manageable
+ */
+const thinTrack = (points: TrackPoint[], maxPoints: number): TrackPoint[] => {
+  if (points.length <= maxPoints) {
+    return points;
+  }
+
+  const step = (points.length - 1) / (maxPoints - 1);
+  const thinned: TrackPoint[] = [];
+  for (let i = 0; i < maxPoints; i++) {
+    thinned.push(points[Math.round(i * step)]);
+  }
+  return thinned;
+};
+
+const getTagText = (xml: string, tag: string): string | undefined => {
+  const match = new RegExp(`<${tag}[^>]*>([\\s\\S]*?)</${tag}>`, 'i').exec(xml);
+  return match ? match[1].trim() : undefined;
+};
+
+const getAttribute = (tagSource: string, name: string): string | undefined => {
+  const match = new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`, 'i').exec(tagSource);
+  return match ? match[1] : undefined;
+};
+
+/**
+ * GPX: <trkpt lat=".." lon=".."><ele>..</ele><time>..</time></trkpt> (route points accepted too)
+ */
+const parseGpx = (content: string): TrackPoint[] => {
+  const points: TrackPoint[] = [];
+  const pointPattern = /<(trkpt|rtept|wpt)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = pointPattern.exec(content)) !== null) {
+    const attributes = match[2];
+    const body = match[3] || '';
+    const time = getTagText(body, 'time');
+    if (!time) continue;
+
+    const elevation = getTagText(body, 'ele');
+    points.push({
+      lat: parseFloat(getAttribute(attributes, 'lat') || ''),
+      lon: parseFloat(getAttribute(attributes, 'lon') || ''),
+      time: new Date(time),
+      altitude: elevation !== undefined ? parseFloat(elevation) : undefined
+    });
+  }
+
+  return points;
+};
+
+/**
+ * KML: a <gx:Track> (<when> + <gx:coord>, as exported by flight trackers)
+ * or timestamped <Placemark> points
+ */
+const parseKml = (content: string): TrackPoint[] => {
+  const points: TrackPoint[] = [];
+
+  const trackPattern = /<gx:Track\b[^>]*>([\s\S]*?)<\/gx:Track>/gi;
+  let track: RegExpExecArray | null;
+  while ((track = trackPattern.exec(content)) !== null) {
+    const whens = Array.from(track[1].matchAll(/<when>([\s\S]*?)<\/when>/gi)).map(m => m[1].trim());
+    const coords = Array.from(track[1].matchAll(/<gx:coord>([\s\S]*?)<\/gx:coord>/gi)).map(m => m[1].trim());
+
+    for (let i = 0; i < Math.min(whens.length, coords.length); i++) {
+      const [lon, lat, alt] = coords[i].split(/\s+/).map(parseFloat);
+      points.push({ lat, lon, time: new Date(whens[i]), altitude: isNaN(alt) ? undefined : alt });
+    }
+  }
+
+  if (points.length > 0) {
+    return points;
+  }
+
+  const placemarkPattern = /<Placemark\b[^>]*>([\s\S]*?)<\/Placemark>/gi;
+  let placemark: RegExpExecArray | null;
+  while ((placemark = placemarkPattern.exec(content)) !== null) {
+    const when = getTagText(placemark[1], 'when');
+    const point = getTagText(placemark[1], 'Point');
+    const coordinates = point ? getTagText(point, 'coordinates') : undefined;
+    if (!when || !coordinates) continue;
+
+    const [lon, lat, alt] = coordinates.split(',').map(parseFloat);
+    points.push({ lat, lon, time: new Date(when), altitude: isNaN(alt) ? undefined : alt });
+  }
+
+  return points;
+};
+
+/**
+ * Split one CSV line, honouring double-quoted fields ("lat,lon" position columns)
+ */
+const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (const char of line) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if ((char === ',' || char === ';' || char === '\t') && !quoted) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+};
+
+/**
+ * Timestamps in ADS-B exports are ISO strings or Unix epochs (seconds or milliseconds)
+ */
+const parseTimestamp = (value: string): Date => {
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const epoch = parseFloat(value);
+    return new Date(epoch > 1e12 ? epoch : epoch * 1000);
+  }
+  // "2025-08-01 18:00:00" without an offset is UTC in tracker exports
+  const normalized = value.replace(' ', 'T');
+  return new Date(/(Z|[+-]\d{2}:?\d{2})$/i.test(normalized) ? normalized : `${normalized}Z`);
+};
+
+/**
+ * CSV of timestamp/lat/lon/altitude as exported by ADS-B tools
+ * (Flightradar24 "Timestamp,UTC,Callsign,Position,Altitude,...", OpenSky state vectors, dump1090 logs)
+ */
+const parseCsv = (content: string): TrackPoint[] => {
+  const lines = content.split(/\r?\n/).filter(line => line.trim().length > 0);
+  if (lines.length < 2) {
+    return [];
+  }
+
+  const header = splitCsvLine(lines[0]).map(h => h.toLowerCase());
+  const findColumn = (...names: string[]) => header.findIndex(h => names.includes(h));
+
+  const timeColumn = findColumn('timestamp', 'time', 'utc', 'datetime', 'date_time', 'time_position', 'when');
+  const latColumn = findColumn('lat', 'latitude');
+  const lonColumn = findColumn('lon', 'lng', 'long', 'longitude');
+  const positionColumn = findColumn('position');
+  const altColumn = header.findIndex(h => /^(alt|altitude|alt_baro|alt_geom|baroaltitude|geoaltitude|altitude_ft|altitude_m)/.test(h));
+
+  if (timeColumn < 0 || ((latColumn < 0 || lonColumn < 0) && positionColumn < 0)) {
+    throw new Error('CSV track needs a timestamp column and lat/lon (or position) columns');
+  }
+
+  // OpenSky altitudes and "_m" columns are metres; ADS-B exports otherwise report feet
+  const altHeader = altColumn >= 0 ? header[altColumn] : '';
+  const altitudeInMetres = /baroaltitude|geoaltitude|_m$|metre|meter/.test(altHeader);
+
+  return lines.slice(1).map(line => {
+    const fields = splitCsvLine(line);
+
+    let lat: number;
+    let lon: number;
+    if (latColumn >= 0 && lonColumn >= 0) {
+      lat = parseFloat(fields[latColumn]);
+      lon = parseFloat(fields[lonColumn]);
+    } else {
+      [lat, lon] = (fields[positionColumn] || '').split(',').map(parseFloat);
+    }
+
+    const rawAltitude = altColumn >= 0 ? parseFloat(fields[altColumn]) : NaN;
+
+    return {
+      lat,
+      lon,
+      time: parseTimestamp(fields[timeColumn] || ''),
+      altitude: isNaN(rawAltitude) ? undefined : rawAltitude * (altitudeInMetres ? 1 : FEET_TO_METRES)
+    };
+  });
+};
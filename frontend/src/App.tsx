@@ -1008,115 +1008,100 @@ interface EnhancedSunAnalysis {
   mountainCount?: number;
 }
 
+// Country below the path, from the backend's countries list
+interface CountryOverflight {
+  name: string;
+  code?: string;
+  entryString: string;
+  exitString: string;
+  entryProgressPercent: number;
+  exitProgressPercent: number;
+  minutes: number;
+}
+
+// Mountain near the path, from the backend's landmarks list
+interface LandmarkSighting {
+  id: string;
+  name: string;
+  region: string;
+  elevation: number;
+  lat: number;
+  lon: number;
+  closestApproach: {
+    timeString: string;
+    progressPercent: number;
+    distanceKm: number;
+  };
+  side: 'left' | 'right';
+  visible: boolean;
+  description: string;
+}
+
 interface FlightData {
   path: Waypoint[];
   sunPositions: SunPosition[];
   recommendation: string;
   distance?: number;
   flightTime?: number;
+  countries?: CountryOverflight[];
+  landmarks?: LandmarkSighting[];
   enhancedAnalysis?: EnhancedSunAnalysis;
 }
 
-// Airport coordinates database
-const AIRPORTS: { [key: string]: [number, number] } = {
-  // Indian Airports
-  'DEL': [28.5562, 77.1000], // Delhi
-  'BOM': [19.0896, 72.8656], // Mumbai
-  'BLR': [12.9716, 77.5946], // Bangalore
-  'MAA': [12.9941, 80.1709], // Chennai
-  'CCU': [22.6547, 88.4467], // Kolkata
-  'HYD': [17.2403, 78.4294], // Hyderabad
-  'COK': [9.9312, 76.2673],  // Kochi
-  'GOI': [15.3808, 73.8314], // Goa
-  'AMD': [23.0725, 72.6347], // Ahmedabad
-  'PNQ': [18.5679, 73.9143], // Pune
-  'BHO': [23.2599, 77.4126], // Bhopal
-  'JAI': [26.9124, 75.7873], // Jaipur
-  'LKO': [26.7606, 80.8843], // Lucknow
-  
-  // International Airports
-  'JFK': [40.6413, -73.7781], // New York JFK
-  'LHR': [51.4700, -0.4543],  // London Heathrow
-  'NRT': [35.7720, 140.3929], // Tokyo Narita
-  'LAX': [33.9425, -118.4081], // Los Angeles
-  'DXB': [25.2532, 55.3657],  // Dubai
-  'SIN': [1.3644, 103.9915],  // Singapore
-  'SYD': [-33.9461, 151.1772], // Sydney
-  'CDG': [49.0097, 2.5479],   // Paris Charles de Gaulle
-  'FRA': [50.0379, 8.5622],   // Frankfurt
-  'HKG': [22.3080, 113.9185], // Hong Kong
-  'ICN': [37.4602, 126.4407], // Seoul Incheon
-  'BKK': [13.6900, 100.7501], // Bangkok
-  'DOH': [25.2731, 51.6080],  // Doha
-  'IST': [41.2619, 28.7414],  // Istanbul
-  'MAD': [40.4719, -3.5626]   // Madrid
-};
+// Backend API base URL
+const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:3001';
 
-// Mountain locations for mountain view feature
-const MOUNTAINS: { [key: string]: { lat: number, lon: number, name: string, elevation: number, region: string } } = {
-  // Himalayas - Northern India
-  'EVEREST': { lat: 27.9881, lon: 86.9250, name: 'Mount Everest', elevation: 8849, region: 'Himalayas' },
-  'K2': { lat: 35.8808, lon: 76.5155, name: 'K2', elevation: 8611, region: 'Karakoram' },
-  'KANCHENJUNGA': { lat: 27.7025, lon: 88.1475, name: 'Kanchenjunga', elevation: 8586, region: 'Himalayas' },
-  'NANDA_DEVI': { lat: 30.3763, lon: 79.9737, name: 'Nanda Devi', elevation: 7816, region: 'Himalayas' },
-  'DHAULAGIRI': { lat: 28.6967, lon: 83.4933, name: 'Dhaulagiri', elevation: 8167, region: 'Himalayas' },
-  'ANNAPURNA': { lat: 28.5967, lon: 83.8203, name: 'Annapurna', elevation: 8091, region: 'Himalayas' },
-  
-  // Western Ghats - South & West India
-  'ANAMUDI': { lat: 10.1783, lon: 77.0650, name: 'Anamudi', elevation: 2695, region: 'Western Ghats' },
-  'DODDABETTA': { lat: 11.4064, lon: 76.7392, name: 'Doddabetta', elevation: 2637, region: 'Nilgiris' },
-  'MULLAYANAGIRI': { lat: 13.3931, lon: 75.7185, name: 'Mullayanagiri', elevation: 1930, region: 'Western Ghats' },
-  'KALSUBAI': { lat: 19.6092, lon: 73.7031, name: 'Kalsubai', elevation: 1646, region: 'Sahyadris' },
-  'HARISHCHANDRAGAD': { lat: 19.5217, lon: 73.7636, name: 'Harishchandragad', elevation: 1424, region: 'Sahyadris' },
-  
-  // Eastern Ghats & Central India
-  'MAHENDRAGIRI': { lat: 18.8503, lon: 84.2883, name: 'Mahendragiri', elevation: 1501, region: 'Eastern Ghats' },
-  'ARMA_KONDA': { lat: 18.3500, lon: 82.9167, name: 'Arma Konda', elevation: 1680, region: 'Eastern Ghats' },
-  'GURU_SHIKHAR': { lat: 24.5925, lon: 72.7894, name: 'Guru Shikhar', elevation: 1722, region: 'Aravalli' },
-  
-  // Northeast India
-  'SARAMATI': { lat: 26.0000, lon: 94.7667, name: 'Saramati', elevation: 3826, region: 'Nagaland Hills' },
-  'BLUE_MOUNTAIN': { lat: 23.2833, lon: 92.8167, name: 'Blue Mountain', elevation: 2157, region: 'Mizoram Hills' },
-  
-  // International Mountains (for international flights)
-  'MONT_BLANC': { lat: 45.8326, lon: 6.8652, name: 'Mont Blanc', elevation: 4809, region: 'Alps' },
-  'MATTERHORN': { lat: 45.9763, lon: 7.6586, name: 'Matterhorn', elevation: 4478, region: 'Alps' },
-  'FUJI': { lat: 35.3606, lon: 138.7274, name: 'Mount Fuji', elevation: 3776, region: 'Japan' },
-  'DENALI': { lat: 63.0692, lon: -151.0070, name: 'Denali', elevation: 6190, region: 'Alaska' },
-  'ROCKY_MOUNTAINS': { lat: 39.7392, lon: -104.9903, name: 'Rocky Mountains', elevation: 4401, region: 'USA' },
-};
+// Airport record as returned by GET /api/airports
+interface AirportInfo {
+  iata: string;
+  icao: string | null;
+  name: string;
+  city: string;
+  country: string;
+  lat: number;
+  lon: number;
+  elevationFt: number;
+  timezone: string;
+}
 
-// Function to get mountains visible from flight path
-const getMountainsVisibleFromPath = (flightPath: Waypoint[], maxDistance: number = 200): string[] => {
-  const visibleMountains: string[] = [];
-  
-  // Check each mountain against the flight path
-  Object.entries(MOUNTAINS).forEach(([mountainKey, mountain]) => {
-    // Check if mountain is within viewing distance of any point on the flight path
-    const isVisible = flightPath.some(waypoint => {
-      const distance = calculateDistance(waypoint.lat, waypoint.lon, mountain.lat, mountain.lon);
-      return distance <= maxDistance; // Within 200km viewing distance
-    });
-    
-    if (isVisible) {
-      visibleMountains.push(mountainKey);
-    }
+// Airports seen in search results, keyed by IATA code (the backend owns the full database)
+const AIRPORT_DETAILS: { [key: string]: AirportInfo } = {};
+
+// Airport coordinates lookup, filled from search results
+const AIRPORTS: { [key: string]: [number, number] } = {};
+
+// Search the backend airport database and remember the results for later lookups
+const searchAirports = async (query: string): Promise<AirportInfo[]> => {
+  const response = await axios.get(`${API_BASE_URL}/api/airports`, {
+    params: { q: query, limit: 15 }
   });
-  
-  return visibleMountains;
+  const airports: AirportInfo[] = response.data.airports;
+
+  airports.forEach(airport => {
+    AIRPORT_DETAILS[airport.iata] = airport;
+    AIRPORTS[airport.iata] = [airport.lat, airport.lon];
+  });
+
+  return airports;
 };
 
-// Distance calculation function (great circle distance)
-const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-  const R = 6371; // Earth's radius in kilometers
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLon = (lon2 - lon1) * Math.PI / 180;
-  const a = 
-    Math.sin(dLat/2) * Math.sin(dLat/2) +
-    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-    Math.sin(dLon/2) * Math.sin(dLon/2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-  return R * c;
+// The parts of the backend's GET /api/route response used alongside the local analysis
+interface RouteResponse {
+  countries: CountryOverflight[];
+  landmarks: LandmarkSighting[];
+}
+
+// Route analysis from the backend, fetched once per search
+const fetchRoute = async (
+  from: string,
+  to: string,
+  depart: string,
+  durationMinutes: number
+): Promise<RouteResponse> => {
+  const response = await axios.get(`${API_BASE_URL}/api/route`, {
+    params: { from, to, depart, duration: durationMinutes / 60 }
+  });
+  return response.data;
 };
 
 // Simplified flight analysis function
@@ -1268,18 +1253,11 @@ const generateSimplifiedFlightAnalysis = (
     };
   });
 
-  // Calculate mountain count
-  const visibleMountains = getMountainsVisibleFromPath(path, 200);
-  const mountainCount = visibleMountains.length;
-
   return {
     path,
     sunPositions,
     recommendation: enhancedAnalysis.seatSuggestion,
-    enhancedAnalysis: {
-      ...enhancedAnalysis,
-      mountainCount
-    }
+    enhancedAnalysis
   };
 };
 
@@ -2177,31 +2155,6 @@ const SearchPage: React.FC<SearchPageProps> = ({
   flightDuration, setFlightDuration, loading, error, onSubmit,
   formatTimeDisplay, getFlightEndTime
 }) => {
-  // Airport data with searchable properties
-  const airports = [
-    { code: "DEL", name: "Delhi", city: "Delhi", country: "India", emoji: "🏛️" },
-    { code: "JAI", name: "Jaipur", city: "Jaipur", country: "India", emoji: "🏰" },
-    { code: "BLR", name: "Bangalore", city: "Bangalore", country: "India", emoji: "🌆" },
-    { code: "BOM", name: "Mumbai", city: "Mumbai", country: "India", emoji: "🏙️" },
-    { code: "BHO", name: "Bhopal", city: "Bhopal", country: "India", emoji: "🌸" },
-    { code: "LKO", name: "Lucknow", city: "Lucknow", country: "India", emoji: "🕌" },
-    { code: "JFK", name: "New York", city: "New York", country: "USA", emoji: "🗽" },
-    { code: "LHR", name: "London", city: "London", country: "UK", emoji: "🇬🇧" },
-    { code: "NRT", name: "Tokyo", city: "Tokyo", country: "Japan", emoji: "🗾" },
-    { code: "LAX", name: "Los Angeles", city: "Los Angeles", country: "USA", emoji: "🌴" },
-    { code: "DXB", name: "Dubai", city: "Dubai", country: "UAE", emoji: "🏜️" },
-    { code: "SIN", name: "Singapore", city: "Singapore", country: "Singapore", emoji: "🌺" },
-    { code: "SYD", name: "Sydney", city: "Sydney", country: "Australia", emoji: "🦘" },
-    { code: "CDG", name: "Paris", city: "Paris", country: "France", emoji: "🗼" },
-    { code: "FRA", name: "Frankfurt", city: "Frankfurt", country: "Germany", emoji: "🇩🇪" },
-    { code: "HKG", name: "Hong Kong", city: "Hong Kong", country: "China", emoji: "🏙️" },
-    { code: "ICN", name: "Seoul", city: "Seoul", country: "South Korea", emoji: "🇰🇷" },
-    { code: "BKK", name: "Bangkok", city: "Bangkok", country: "Thailand", emoji: "🇹🇭" },
-    { code: "DOH", name: "Doha", city: "Doha", country: "Qatar", emoji: "🏺" },
-    { code: "IST", name: "Istanbul", city: "Istanbul", country: "Turkey", emoji: "🕌" },
-    { code: "MAD", name: "Madrid", city: "Madrid", country: "Spain", emoji: "🇪🇸" }
-  ];
-
   // Searchable dropdown component
   const SearchableDropdown = ({ 
     value, 
@@ -2218,20 +2171,41 @@ const SearchPage: React.FC<SearchPageProps> = ({
   }) => {
     const [isOpen, setIsOpen] = React.useState(false);
     const [searchTerm, setSearchTerm] = React.useState("");
+    const [filteredAirports, setFilteredAirports] = React.useState<AirportInfo[]>([]);
+    const [searching, setSearching] = React.useState(false);
     const dropdownRef = React.useRef<HTMLDivElement>(null);
 
-    // Filter airports based on search term
-    const filteredAirports = airports.filter(airport =>
-      airport.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      airport.city.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      airport.code.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      airport.country.toLowerCase().includes(searchTerm.toLowerCase())
-    );
+    // Query the backend airport database as the user types (debounced)
+    React.useEffect(() => {
+      if (searchTerm.trim().length < 2) {
+        setFilteredAirports([]);
+        return;
+      }
+
+      let cancelled = false;
+      const timer = setTimeout(async () => {
+        setSearching(true);
+        try {
+          const results = await searchAirports(searchTerm);
+          if (!cancelled) setFilteredAirports(results);
+        } catch (err) {
+          console.error('Airport search failed:', err);
+          if (!cancelled) setFilteredAirports([]);
+        } finally {
+          if (!cancelled) setSearching(false);
+        }
+      }, 250);
+
+      return () => {
+        cancelled = true;
+        clearTimeout(timer);
+      };
+    }, [searchTerm]);
 
     // Get selected airport display text
-    const selectedAirport = airports.find(a => a.code === value);
+    const selectedAirport = AIRPORT_DETAILS[value];
     const displayText = selectedAirport 
-      ? `${selectedAirport.emoji} ${selectedAirport.city} (${selectedAirport.code})`
+      ? `✈️ ${selectedAirport.city} (${selectedAirport.iata})`
       : placeholder;
 
     // Close dropdown when clicking outside
@@ -2264,7 +2238,7 @@ const SearchPage: React.FC<SearchPageProps> = ({
               <div className="search-input-container">
                 <input
                   type="text"
-                  placeholder="Search airports..."
+                  placeholder="Search by city, airport or code..."
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   className="search-input"
@@ -2273,27 +2247,32 @@ const SearchPage: React.FC<SearchPageProps> = ({
               </div>
               
               <div className="dropdown-options">
-                {filteredAirports.length > 0 ? (
+                {searching ? (
+                  <div className="no-results">Searching...</div>
+                ) : filteredAirports.length > 0 ? (
                   filteredAirports.map((airport) => (
                     <div
-                      key={airport.code}
-                      className={`dropdown-option ${value === airport.code ? 'selected' : ''}`}
+                      key={airport.iata}
+                      className={`dropdown-option ${value === airport.iata ? 'selected' : ''}`}
+                      title={airport.name}
                       onClick={() => {
-                        onChange(airport.code);
+                        onChange(airport.iata);
                         setIsOpen(false);
                         setSearchTerm("");
                       }}
                     >
-                      <span className="airport-emoji">{airport.emoji}</span>
+                      <span className="airport-emoji">✈️</span>
                       <span className="airport-info">
                         <span className="airport-city">{airport.city}</span>
-                        <span className="airport-code">({airport.code})</span>
+                        <span className="airport-code">({airport.iata})</span>
                       </span>
                       <span className="airport-country">{airport.country}</span>
                     </div>
                   ))
                 ) : (
-                  <div className="no-results">No airports found</div>
+                  <div className="no-results">
+                    {searchTerm.trim().length < 2 ? 'Type at least 2 characters' : 'No airports found'}
+                  </div>
                 )}
               </div>
             </div>
@@ -2919,121 +2898,113 @@ const ResultsPage: React.FC<ResultsPageProps> = ({
               })()}
 
               {/* Mountain Markers */}
-              {flightData.path && (() => {
-                const visibleMountains = getMountainsVisibleFromPath(flightData.path, 200);
-                
-                return visibleMountains.map(mountainKey => {
-                  const mountain = MOUNTAINS[mountainKey];
-                  
-                  return (
-                    <Marker
-                      key={mountainKey}
-                      position={[mountain.lat, mountain.lon]}
-                      icon={L.divIcon({
-                        className: 'mountain-marker',
-                        html: `
-                          <div class="map-mountain-marker" style="
-                            display: flex;
-                            align-items: center;
-                            justify-content: center;
-                            width: 35px;
-                            height: 35px;
-                            background: linear-gradient(135deg, #8B4513 0%, #D2691E  30%, #F4A460 60%, #FFFFFF 85%);
-                            border-radius: 8px 8px 20px 20px;
-                            border: 2px solid #654321;
-                            box-shadow: 0 4px 12px rgba(139, 69, 19, 0.5), 0 2px 6px rgba(0, 0, 0, 0.3);
-                            position: relative;
-                            font-size: 16px;
-                            cursor: pointer;
-                            transition: all 0.3s ease;
-                            transform-origin: bottom center;
-                          " title="${mountain.name} • ${mountain.elevation}m • ${mountain.region}">
-                            🏔️
-                            <div style="
-                              position: absolute;
-                              width: 45px;
-                              height: 45px;
-                              border: 2px solid #8B4513;
-                              border-radius: 8px;
-                              border-style: dashed;
-                              animation: pulse 3s ease-in-out infinite;
-                              opacity: 0.3;
-                            "></div>
-                            <div class="map-mountain-tooltip" style="
-                              position: absolute;
-                              bottom: 120%;
-                              left: 50%;
-                              transform: translateX(-50%);
-                              background: rgba(139, 69, 19, 0.95);
-                              color: white;
-                              padding: 10px 14px;
-                              border-radius: 8px;
-                              font-size: 12px;
-                              white-space: nowrap;
-                              z-index: 1000;
-                              opacity: 0;
-                              visibility: hidden;
-                              transition: opacity 0.3s ease, visibility 0.3s ease;
-                              pointer-events: none;
-                              box-shadow: 0 4px 16px rgba(0, 0, 0, 0.4);
-                              border: 1px solid #F4A460;
-                            ">
-                              <div style="font-weight: bold; margin-bottom: 4px;">🏔️ ${mountain.name}</div>
-                              <div style="font-size: 11px; opacity: 0.9;">
-                                📏 ${mountain.elevation.toLocaleString()}m elevation<br/>
-                                🗺️ ${mountain.region}
-                              </div>
-                              <div style="
-                                position: absolute;
-                                top: 100%;
-                                left: 50%;
-                                transform: translateX(-50%);
-                                width: 0;
-                                height: 0;
-                                border-left: 6px solid transparent;
-                                border-right: 6px solid transparent;
-                                border-top: 6px solid rgba(139, 69, 19, 0.95);
-                              "></div>
-                            </div>
-                          </div>
-                          <style>
-                            @keyframes pulse {
-                              0%, 100% { transform: scale(1); opacity: 0.3; }
-                              50% { transform: scale(1.1); opacity: 0.6; }
-                            }
-                            .map-mountain-marker:hover {
-                              transform: scale(1.15) !important;
-                              box-shadow: 0 6px 20px rgba(139, 69, 19, 0.7), 0 3px 10px rgba(0, 0, 0, 0.4) !important;
-                            }
-                            .map-mountain-marker:hover .map-mountain-tooltip {
-                              opacity: 1 !important;
-                              visibility: visible !important;
-                            }
-                          </style>
-                        `,
-                        iconSize: [35, 35],
-                        iconAnchor: [17, 35],
-                      })}
-                    >
-                      <Popup>
-                        <div style={{ minWidth: '200px' }}>
-                          <strong style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '8px' }}>
-                            🏔️ {mountain.name}
-                          </strong>
-                          <div style={{ fontSize: '13px', lineHeight: '1.5' }}>
-                            <div><strong>Elevation:</strong> {mountain.elevation.toLocaleString()}m</div>
-                            <div><strong>Region:</strong> {mountain.region}</div>
-                            <div style={{ marginTop: '8px', padding: '8px', background: '#f0f8ff', borderRadius: '4px', fontSize: '12px' }}>
-                              <strong>🔭 Mountain View Available</strong><br/>
-                              This peak is visible from your flight path!
-                            </div>
+              {flightData.landmarks?.map(mountain => (
+                <Marker
+                  key={mountain.id}
+                  position={[mountain.lat, mountain.lon]}
+                  icon={L.divIcon({
+                    className: 'mountain-marker',
+                    html: `
+                      <div class="map-mountain-marker" style="
+                        display: flex;
+                        align-items: center;
+                        justify-content: center;
+                        width: 35px;
+                        height: 35px;
+                        background: linear-gradient(135deg, #8B4513 0%, #D2691E  30%, #F4A460 60%, #FFFFFF 85%);
+                        border-radius: 8px 8px 20px 20px;
+                        border: 2px solid #654321;
+                        box-shadow: 0 4px 12px rgba(139, 69, 19, 0.5), 0 2px 6px rgba(0, 0, 0, 0.3);
+                        position: relative;
+                        font-size: 16px;
+                        cursor: pointer;
+                        transition: all 0.3s ease;
+                        transform-origin: bottom center;
+                      " title="${mountain.name} • ${mountain.elevation}m • ${mountain.region}">
+                        🏔️
+                        <div style="
+                          position: absolute;
+                          width: 45px;
+                          height: 45px;
+                          border: 2px solid #8B4513;
+                          border-radius: 8px;
+                          border-style: dashed;
+                          animation: pulse 3s ease-in-out infinite;
+                          opacity: 0.3;
+                        "></div>
+                        <div class="map-mountain-tooltip" style="
+                          position: absolute;
+                          bottom: 120%;
+                          left: 50%;
+                          transform: translateX(-50%);
+                          background: rgba(139, 69, 19, 0.95);
+                          color: white;
+                          padding: 10px 14px;
+                          border-radius: 8px;
+                          font-size: 12px;
+                          white-space: nowrap;
+                          z-index: 1000;
+                          opacity: 0;
+                          visibility: hidden;
+                          transition: opacity 0.3s ease, visibility 0.3s ease;
+                          pointer-events: none;
+                          box-shadow: 0 4px 16px rgba(0, 0, 0, 0.4);
+                          border: 1px solid #F4A460;
+                        ">
+                          <div style="font-weight: bold; margin-bottom: 4px;">🏔️ ${mountain.name}</div>
+                          <div style="font-size: 11px; opacity: 0.9;">
+                            📏 ${mountain.elevation.toLocaleString()}m elevation<br/>
+                            🗺️ ${mountain.region}
                           </div>
+                          <div style="
+                            position: absolute;
+                            top: 100%;
+                            left: 50%;
+                            transform: translateX(-50%);
+                            width: 0;
+                            height: 0;
+                            border-left: 6px solid transparent;
+                            border-right: 6px solid transparent;
+                            border-top: 6px solid rgba(139, 69, 19, 0.95);
+                          "></div>
                         </div>
-                      </Popup>
-                    </Marker>
-                  );
-                });
-              })()}
+                      </div>
+                      <style>
+                        @keyframes pulse {
+                          0%, 100% { transform: scale(1); opacity: 0.3; }
+                          50% { transform: scale(1.1); opacity: 0.6; }
+                        }
+                        .map-mountain-marker:hover {
+                          transform: scale(1.15) !important;
+                          box-shadow: 0 6px 20px rgba(139, 69, 19, 0.7), 0 3px 10px rgba(0, 0, 0, 0.4) !important;
+                        }
+                        .map-mountain-marker:hover .map-mountain-tooltip {
+                          opacity: 1 !important;
+                          visibility: visible !important;
+                        }
+                      </style>
+                    `,
+                    iconSize: [35, 35],
+                    iconAnchor: [17, 35],
+                  })}
+                >
+                  <Popup>
+                    <div style={{ minWidth: '200px' }}>
+                      <strong style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '8px' }}>
+                        🏔️ {mountain.name}
+                      </strong>
+                      <div style={{ fontSize: '13px', lineHeight: '1.5' }}>
+                        <div><strong>Elevation:</strong> {mountain.elevation.toLocaleString()}m</div>
+                        <div><strong>Region:</strong> {mountain.region}</div>
+                        <div style={{ marginTop: '8px', padding: '8px', background: '#f0f8ff', borderRadius: '4px', fontSize: '12px' }}>
+                          <strong>🔭 Mountain View Available</strong><br/>
+                          {mountain.closestApproach.distanceKm} km away at {mountain.closestApproach.timeString}, {mountain.description}
+                        </div>
+                      </div>
+                    </div>
+                  </Popup>
+                </Marker>
+              ))}
             </MapContainer>
           </div>
 
@@ -3368,6 +3339,18 @@ const ResultsPage: React.FC<ResultsPageProps> = ({
                 <div className="progress-display">
                   Flight Progress: {Math.round(flightProgress)}%
                 </div>
+
+                {/* Country below the aircraft at the slider position */}
+                {flightData?.countries && (() => {
+                  const below = flightData.countries.find(country =>
+                    flightProgress >= country.entryProgressPercent && flightProgress < country.exitProgressPercent
+                  );
+                  return (
+                    <div className="progress-country" title={below ? `${below.entryString} – ${below.exitString}` : undefined}>
+                      {below ? `🗺️ Over ${below.name}` : '🌊 Over water'}
+                    </div>
+                  );
+                })()}
                 
                 {/* Sunrise/Sunset Information */}
                 {(() => {
@@ -3486,7 +3469,24 @@ function App() {
         flightDuration
       );
 
-      setFlightData(mockFlightData);
+      // Countries below the path and mountains in view come from the backend; everything else works without it
+      let route: RouteResponse | undefined;
+      try {
+        route = await fetchRoute(fromAirport, toAirport, departureTime, flightDuration);
+      } catch (routeError) {
+        console.warn('Could not load the route analysis:', routeError);
+      }
+      const landmarks = route?.landmarks.filter(landmark => landmark.visible);
+
+      setFlightData({
+        ...mockFlightData,
+        countries: route?.countries,
+        landmarks,
+        enhancedAnalysis: mockFlightData.enhancedAnalysis && {
+          ...mockFlightData.enhancedAnalysis,
+          mountainCount: landmarks?.length ?? 0
+        }
+      });
       
       // Set initial flight progress to 0% (departure)
       setFlightProgress(0);